@@ -0,0 +1,21 @@
+/**
+ * 💎 loot-json CST module
+ * Tolerant tokenizer and error-recovering parser producing a concrete syntax tree
+ */
+
+export { parseCst, printCst } from './parser';
+export type {
+  CstArray,
+  CstChild,
+  CstDocument,
+  CstItem,
+  CstMember,
+  CstNode,
+  CstObject,
+  CstParseOptions,
+  CstScalar,
+  CstStray,
+  CstToken,
+  CstTokenKind,
+  CstValue,
+} from './types';
@@ -0,0 +1,356 @@
+/**
+ * 💎 loot-json CST parser
+ * Error-recovering parser that keeps every token (comments and whitespace included)
+ */
+
+import { Substitution, Tokenizer } from './tokenizer';
+import {
+  CstArray,
+  CstChild,
+  CstDocument,
+  CstItem,
+  CstMember,
+  CstNode,
+  CstObject,
+  CstParseOptions,
+  CstToken,
+  CstValue,
+} from './types';
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Parse any text into a concrete syntax tree
+ *
+ * Never throws: missing commas and colons leave members without them, unmatched
+ * closers and unknown characters become `stray` nodes, and containers still open
+ * at the end (or closed by an outer closer) are marked `unclosed`.
+ *
+ * @example
+ * ```ts
+ * const cst = parseCst('{a: 1 // one\n "b" 2}');
+ * const [object] = cst.values;    // CstObject with two members
+ * object.members[1].colon;        // undefined (missing)
+ * printCst(cst);                  // the input again: nothing is lost
+ * ```
+ */
+export function parseCst(text: string, options: CstParseOptions = {}): CstDocument {
+  return new CstParser(text, options).parse();
+}
+
+/**
+ * Serialize a tree (or any node) back to text
+ */
+export function printCst(node: CstChild): string {
+  const parts: string[] = [];
+  collectText(node, parts);
+  return parts.join('');
+}
+
+export function isToken(child: CstChild): child is CstToken {
+  return (child as CstToken).kind !== undefined;
+}
+
+/**
+ * Members of an object or items of an array
+ */
+export function entriesOf(node: CstObject | CstArray): Array<CstMember | CstItem> {
+  return node.type === 'object' ? node.members : node.items;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * What a container accepts next
+ */
+type Expect = 'key' | 'colon' | 'value' | 'comma';
+
+/**
+ * An open container, to resume parsing input that continues it
+ */
+export interface ParseFrame {
+  open: '{' | '[' | '(';
+  expect: Expect;
+}
+
+interface Frame {
+  node: CstObject | CstArray;
+  /** Member or item being read */
+  entry?: CstMember | CstItem;
+  expect: Expect;
+}
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+
+export class CstParser {
+  private tokenizer: Tokenizer;
+  private document: CstDocument = { type: 'document', children: [], values: [] };
+  private frames: Frame[] = [];
+
+  /**
+   * @param context - Containers left open by earlier input (see `context()`)
+   */
+  constructor(text: string, options: CstParseOptions = {}, context: ParseFrame[] = []) {
+    this.tokenizer = new Tokenizer(text, options);
+    for (const frame of context) {
+      this.resume(frame);
+    }
+  }
+
+  parse(): CstDocument {
+    for (;;) {
+      const frame = this.top();
+      const isKey = frame?.node.type === 'object' && (frame.expect === 'key' || frame.expect === 'comma');
+      const inTuple = frame?.node.type === 'array' && frame.node.tuple === true;
+      const token = this.tokenizer.next(isKey, inTuple);
+      if (!token) {
+        break;
+      }
+      this.accept(token);
+    }
+
+    for (const frame of this.frames) {
+      frame.node.unclosed = 'eof';
+    }
+    return this.document;
+  }
+
+  /**
+   * Containers still open at the end of the input, outermost first
+   */
+  context(): ParseFrame[] {
+    return this.frames.map(({ node, expect }) => ({ open: openSymbol(node), expect }));
+  }
+
+  /**
+   * Custom rule replacements made while tokenizing
+   */
+  get substitutions(): Substitution[] {
+    return this.tokenizer.substitutions;
+  }
+
+  private accept(token: CstToken): void {
+    switch (token.kind) {
+      case 'whitespace':
+      case 'comment':
+        this.append(token);
+        return;
+      case 'unknown':
+        this.append({ type: 'stray', token, children: [token] });
+        return;
+      case 'string':
+      case 'bare':
+        this.value({ type: 'scalar', token, children: [token] });
+        return;
+    }
+
+    switch (token.symbol) {
+      case '{':
+      case '[':
+      case '(':
+        this.open(token);
+        return;
+      case '}':
+      case ']':
+      case ')':
+        this.close(token);
+        return;
+      case ':':
+        this.colon(token);
+        return;
+      case ',':
+        this.comma(token);
+        return;
+    }
+  }
+
+  // ==========================================================================
+  // Token Handlers
+  // ==========================================================================
+
+  private value(value: CstValue): void {
+    const frame = this.top();
+    if (!frame) {
+      this.document.values.push(value);
+      this.document.children.push(value);
+      return;
+    }
+
+    if (frame.node.type === 'array') {
+      // After a value, this is a missing comma: start the next item anyway
+      const item: CstItem = { type: 'item', value, children: [value] };
+      this.addEntry(frame, item);
+      frame.expect = 'comma';
+      return;
+    }
+
+    if (frame.entry?.type === 'member' && (frame.expect === 'colon' || frame.expect === 'value')) {
+      // After a key, the colon may be missing
+      frame.entry.value = value;
+      frame.entry.children.push(value);
+      frame.expect = 'comma';
+      return;
+    }
+
+    // A new member (after a value, the comma is missing)
+    const member: CstMember = { type: 'member', children: [value] };
+    if (value.type === 'scalar') {
+      member.key = value;
+      frame.expect = 'colon';
+    } else {
+      member.value = value;
+      frame.expect = 'comma';
+    }
+    this.addEntry(frame, member);
+  }
+
+  private open(token: CstToken): void {
+    const node = createContainer(token.symbol as ParseFrame['open'], token);
+    this.value(node);
+    this.frames.push({ node, expect: node.type === 'object' ? 'key' : 'value' });
+  }
+
+  private close(token: CstToken): void {
+    let index = this.frames.length - 1;
+    while (index >= 0 && CLOSERS[openSymbol(this.frames[index].node)] !== token.symbol) {
+      index--;
+    }
+
+    // Nothing to close: {"a": 1}}
+    if (index < 0) {
+      this.append({ type: 'stray', token, children: [token] });
+      return;
+    }
+
+    // {"a": [1, 2}, "b": 3}: ending the root value would leave the comma after it
+    // outside any container, so the closer ends the innermost container instead
+    if (index === 0 && this.frames.length > 1 && this.tokenizer.nextSymbol() === ',') {
+      index = this.frames.length - 1;
+    }
+
+    // An outer closer ends the inner containers too: {"a": [1, 2}
+    while (this.frames.length - 1 > index) {
+      (this.frames.pop() as Frame).node.unclosed = 'mismatch';
+    }
+
+    const { node } = this.frames.pop() as Frame;
+    node.close = token;
+    node.children.push(token);
+  }
+
+  private colon(token: CstToken): void {
+    const frame = this.top();
+    if (frame?.entry && frame.expect === 'colon') {
+      (frame.entry as CstMember).colon = token;
+      frame.entry.children.push(token);
+      frame.expect = 'value';
+      return;
+    }
+    this.append(token);
+  }
+
+  private comma(token: CstToken): void {
+    const frame = this.top();
+    if (!frame) {
+      this.append(token);
+      return;
+    }
+
+    if (frame.entry) {
+      frame.entry.comma = token;
+      frame.entry.children.push(token);
+    } else if (frame.node.type === 'array') {
+      // An empty slot: [1,,2]
+      this.addEntry(frame, { type: 'item', comma: token, children: [token] });
+    } else {
+      this.append(token);
+    }
+
+    frame.entry = undefined;
+    frame.expect = frame.node.type === 'object' ? 'key' : 'value';
+  }
+
+  // ==========================================================================
+  // Tree Building
+  // ==========================================================================
+
+  /**
+   * Add trivia or a stray token where the parser is
+   */
+  private append(child: CstChild): void {
+    const frame = this.top();
+    const parent: CstNode = frame ? (frame.entry ?? frame.node) : this.document;
+    parent.children.push(child);
+  }
+
+  private addEntry(frame: Frame, entry: CstMember | CstItem): void {
+    if (frame.node.type === 'object') {
+      frame.node.members.push(entry as CstMember);
+    } else {
+      frame.node.items.push(entry as CstItem);
+    }
+    frame.node.children.push(entry);
+    frame.entry = entry;
+  }
+
+  /**
+   * Reopen a container from earlier input (without its opening token)
+   */
+  private resume({ open, expect }: ParseFrame): void {
+    const node = createContainer(open);
+    const parent = this.top();
+
+    if (parent?.entry) {
+      parent.entry.value = node;
+      parent.entry.children.push(node);
+    } else {
+      this.document.values.push(node);
+      this.document.children.push(node);
+    }
+
+    const frame: Frame = { node, expect };
+    this.frames.push(frame);
+
+    // Mid-member or after a value: the rest of that entry follows
+    if (expect === 'colon' || expect === 'comma' || (expect === 'value' && node.type === 'object')) {
+      this.addEntry(frame, node.type === 'object' ? { type: 'member', children: [] } : { type: 'item', children: [] });
+    }
+  }
+
+  private top(): Frame | undefined {
+    return this.frames[this.frames.length - 1];
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function collectText(node: CstChild, parts: string[]): void {
+  if (isToken(node)) {
+    parts.push(node.text);
+    return;
+  }
+  for (const child of node.children) {
+    collectText(child, parts);
+  }
+}
+
+function createContainer(open: ParseFrame['open'], token?: CstToken): CstObject | CstArray {
+  const children: CstChild[] = token ? [token] : [];
+  if (open === '{') {
+    return { type: 'object', open: token, members: [], children };
+  }
+  return { type: 'array', open: token, items: [], tuple: open === '(', children };
+}
+
+function openSymbol(node: CstObject | CstArray): ParseFrame['open'] {
+  if (node.type === 'object') {
+    return '{';
+  }
+  return node.tuple ? '(' : '[';
+}
@@ -0,0 +1,489 @@
+/**
+ * 💎 loot-json tokenizer
+ * Tolerant tokenizer for JSON and the dialects LLMs write (JSON5, Python, smart quotes)
+ */
+
+import { CustomRepairRule, RepairRuleResult, SourcePosition } from '../types';
+import { CstParseOptions, CstToken, CstTokenKind } from './types';
+
+/**
+ * An onChar replacement made while tokenizing
+ */
+export interface Substitution {
+  rule: CustomRepairRule;
+  result: RepairRuleResult;
+  /** Offset of the replaced input */
+  position: number;
+}
+
+/**
+ * Splits input into tokens, trivia included; never fails
+ *
+ * Tokens are read one at a time so the parser can say whether a string is an
+ * object key (keys close at the first '"', values look ahead for a terminator).
+ */
+export class Tokenizer {
+  /** onChar replacements, in input order */
+  readonly substitutions: Substitution[] = [];
+  private input: string;
+  private unescapedQuotes: boolean;
+  private customRules: CustomRepairRule[];
+  private lines: number[] | undefined;
+  /** Offset of the next unread input character */
+  private pos: number = 0;
+  /** Replacement characters still to read (all at `queueOffset`) */
+  private queue: string[] = [];
+  private queueOffset: number = 0;
+  /** Last offset custom rules were tried at */
+  private checked: number = -1;
+  /** Token being read: `text` plus the input from `pending` to `pos`, not yet copied */
+  private start: number = 0;
+  private text: string = '';
+  private pending: number = 0;
+  /** Input offset of each character of `text`, once a replacement is part of it */
+  private offsets: number[] | undefined;
+
+  /**
+   * @param start - Offset to start reading at (a token boundary)
+   */
+  constructor(input: string, options: CstParseOptions = {}, start: number = 0) {
+    this.input = input;
+    this.pos = start;
+    this.unescapedQuotes = options.unescapedQuotes ?? true;
+    this.customRules = options.customRules ?? [];
+  }
+
+  /**
+   * Read the next token
+   * @param isKey - A string here is an object key
+   * @param inTuple - The innermost container is a tuple: ')' ends a string value
+   */
+  next(isKey: boolean = false, inTuple: boolean = false): CstToken | undefined {
+    const char = this.peek('normal');
+    if (char === undefined) {
+      return undefined;
+    }
+
+    this.start = this.offset();
+    this.text = '';
+    this.pending = this.pos;
+    this.offsets = undefined;
+
+    if (char === '/' && (this.lookahead() === '/' || this.lookahead() === '*')) {
+      return this.readComment();
+    }
+    if (char in QUOTES) {
+      return this.readString(char, isKey, inTuple);
+    }
+    if (char in PUNCTUATION) {
+      this.take();
+      const token = this.token('punctuation');
+      token.symbol = PUNCTUATION[char];
+      return token;
+    }
+
+    const kind = charKind(char) as CstTokenKind;
+    this.take();
+    this.readWhile((next) => charKind(next) === kind && !(next === '/' && isCommentStart(this.lookahead())));
+    return this.token(kind);
+  }
+
+  /**
+   * The next character that is not whitespace, as ASCII punctuation ('，' → ',')
+   * Custom rules are not applied.
+   */
+  nextSymbol(): string | undefined {
+    const char = nextSignificant(this.input, this.offset());
+    return char === undefined ? undefined : (PUNCTUATION[char] ?? char);
+  }
+
+  // ==========================================================================
+  // Token Readers
+  // ==========================================================================
+
+  private readComment(): CstToken {
+    const block = this.lookahead() === '*';
+    this.take('raw');
+    this.take('raw');
+
+    let closed = !block;
+    for (let char = this.peek('raw'); char !== undefined; char = this.peek('raw')) {
+      if (!block && char === '\n') {
+        break;
+      }
+      this.take('raw');
+      if (block && char === '*' && this.peek('raw') === '/') {
+        this.take('raw');
+        closed = true;
+        break;
+      }
+    }
+    const token = this.token('comment');
+    token.closed = closed;
+    return token;
+  }
+
+  private readString(quote: string, isKey: boolean, inTuple: boolean): CstToken {
+    const delimiter = QUOTES[quote];
+    const curlyClosers = CURLY_CLOSERS[quote] ?? '';
+    this.take();
+
+    let closed = false;
+    // Where the string ends once a quote was kept as part of it (see findStringEnd)
+    let end = -1;
+    for (let char = this.peek('string'); char !== undefined; char = this.peek('string')) {
+      const at = this.offset();
+
+      if (char === '\\') {
+        this.take();
+        if (this.peek('raw') !== undefined) {
+          this.take('raw');
+        }
+        continue;
+      }
+
+      this.take();
+
+      // A string opened with a curly quote closes at a curly quote followed by a terminator
+      if (curlyClosers.includes(char) && isClosingQuote(this.input, at, inTuple)) {
+        closed = true;
+        break;
+      }
+      if (char === delimiter) {
+        // "He said "hi" to me", 'O'Brien': a quote not followed by a terminator is part of the value
+        if (delimiter !== '`' && this.unescapedQuotes && !isKey && !isClosingQuote(this.input, at, inTuple)) {
+          if (end < at) {
+            end = findStringEnd(this.input, at, delimiter, inTuple);
+          }
+          // ...unless no later quote closes the string either: {"a": "x" y}
+          if (end !== -1) {
+            continue;
+          }
+        }
+        closed = true;
+        break;
+      }
+    }
+    const token = this.token('string');
+    token.quote = quote;
+    token.closed = closed;
+    return token;
+  }
+
+  private readWhile(predicate: (char: string) => boolean): void {
+    for (;;) {
+      const substitutions = this.substitutions.length;
+      const char = this.peek('normal');
+      // A replacement starts a new token
+      if (char === undefined || substitutions !== this.substitutions.length || !predicate(char)) {
+        return;
+      }
+      this.take();
+    }
+  }
+
+  private token(kind: CstTokenKind): CstToken {
+    this.flush();
+    const end = this.queue.length > 0 ? this.queueOffset : this.pos;
+    const token: CstToken = { kind, text: this.text, start: this.start, end };
+    if (this.offsets) {
+      token.offsets = this.offsets;
+    }
+    return token;
+  }
+
+  // ==========================================================================
+  // Character Access
+  // ==========================================================================
+
+  /**
+   * The current character, after custom rules ran on it
+   * @param mode - 'raw' inside comments and escapes, where custom rules do not run
+   */
+  private peek(mode: 'normal' | 'string' | 'raw'): string | undefined {
+    while (this.queue.length === 0 && this.pos < this.input.length) {
+      if (mode === 'raw' || this.checked === this.pos || !this.substitute(mode === 'string')) {
+        return this.input[this.pos];
+      }
+    }
+    return this.queue[0];
+  }
+
+  /**
+   * The character after the current one (custom rules not applied)
+   */
+  private lookahead(): string | undefined {
+    if (this.queue.length > 1) {
+      return this.queue[1];
+    }
+    return this.input[this.queue.length === 1 ? this.pos : this.pos + 1];
+  }
+
+  private offset(): number {
+    return this.queue.length > 0 ? this.queueOffset : this.pos;
+  }
+
+  /**
+   * Append the current character to the token
+   * Input characters are copied in one slice when the token ends (see flush)
+   */
+  private take(mode: 'normal' | 'string' | 'raw' = 'normal'): void {
+    const char = this.peek(mode);
+    if (char === undefined) {
+      return;
+    }
+
+    if (this.queue.length === 0) {
+      this.offsets?.push(this.pos);
+      this.pos++;
+      return;
+    }
+
+    this.flush();
+    if (!this.offsets) {
+      this.offsets = this.text.split('').map((_, i) => this.start + i);
+    }
+    this.offsets.push(this.queueOffset);
+    this.text += char;
+    this.queue.shift();
+    // Input after the replaced characters
+    this.pending = this.pos;
+  }
+
+  /**
+   * Copy the input taken since the last replacement into the token text
+   */
+  private flush(): void {
+    if (this.pending < this.pos) {
+      this.text += this.input.slice(this.pending, this.pos);
+      this.pending = this.pos;
+    }
+  }
+
+  /**
+   * Run the onChar hooks at the current offset; the first match replaces the input
+   * @returns Whether a rule matched
+   */
+  private substitute(inString: boolean): boolean {
+    this.checked = this.pos;
+    if (this.customRules.length === 0) {
+      return false;
+    }
+
+    if (!this.lines) {
+      this.lines = lineStarts(this.input);
+    }
+    const { offset: position, line, column } = toPosition(this.lines, this.pos);
+    const context = { input: this.input, position, line, column, inString };
+
+    for (const rule of this.customRules) {
+      const result = rule.onChar?.(this.input[this.pos], context);
+      if (!result) {
+        continue;
+      }
+
+      this.substitutions.push({ rule, result, position });
+      this.flush();
+      this.queue = result.replacement.split('');
+      this.queueOffset = position;
+      this.pos += Math.max(1, result.length ?? 1);
+      this.pending = this.pos;
+      return true;
+    }
+    return false;
+  }
+}
+
+// ============================================================================
+// Character Classes
+// ============================================================================
+
+// Opening quote → the plain quote that closes it
+const QUOTES: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  '`': '`',
+  '\uff02': '"', // ＂
+  '\u201c': '"', // “
+  '\u201d': '"', // ”
+  '\u201e': '"', // „
+  '\u2018': "'", // ‘
+  '\u2019': "'", // ’
+};
+
+// Curly quotes also close strings opened with a curly quote
+const CURLY_CLOSERS: Record<string, string> = {
+  '\u201c': '\u201c\u201d',
+  '\u201d': '\u201c\u201d',
+  '\u201e': '\u201c\u201d',
+  '\u2018': '\u2018\u2019',
+  '\u2019': '\u2018\u2019',
+};
+
+const PUNCTUATION: Record<string, string> = {
+  '{': '{',
+  '}': '}',
+  '[': '[',
+  ']': ']',
+  '(': '(',
+  ')': ')',
+  ':': ':',
+  ',': ',',
+  '\uff5b': '{', // ｛
+  '\uff5d': '}', // ｝
+  '\uff3b': '[', // ［
+  '\uff3d': ']', // ］
+  '\uff1a': ':', // ：
+  '\uff0c': ',', // ，
+};
+
+const BARE_CHAR_REGEX = /[\p{L}\p{N}_$.+-]/u;
+
+/**
+ * Kind of a run of characters that are not quotes or punctuation
+ */
+function charKind(char: string): CstTokenKind | undefined {
+  const code = char.charCodeAt(0);
+  if (code < 128) {
+    return ASCII_KINDS[code];
+  }
+  if (char in QUOTES || char in PUNCTUATION) {
+    return undefined;
+  }
+  if (/\s/.test(char) || char === '\u200b') {
+    return 'whitespace';
+  }
+  if (BARE_CHAR_REGEX.test(char)) {
+    return 'bare';
+  }
+  return 'unknown';
+}
+
+// charKind of each ASCII character, by code
+const ASCII_KINDS: Array<CstTokenKind | undefined> = Array.from({ length: 128 }, (_, code) => {
+  const char = String.fromCharCode(code);
+  if (char in QUOTES || char in PUNCTUATION) {
+    return undefined;
+  }
+  if (/\s/.test(char)) {
+    return 'whitespace';
+  }
+  return BARE_CHAR_REGEX.test(char) ? 'bare' : 'unknown';
+});
+
+function isCommentStart(next: string | undefined): boolean {
+  return next === '/' || next === '*';
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Whether the quote at `index` closes a string: it must be followed by ',', ':', '}',
+ * ']' (or ')' in a tuple), a comment, the end of input or a quote opening another string
+ *
+ * Of quotes separated only by whitespace ("x" "y", "said "hi""), the last one closes
+ * a string when a terminator follows it, and each one before it does the opposite of
+ * the one after it.
+ */
+export function isClosingQuote(input: string, index: number, inTuple: boolean = false): boolean {
+  let closes = true;
+  let at = index;
+  for (;;) {
+    at = nextSignificantIndex(input, at + 1);
+    if (at === -1 || !(input[at] in QUOTES)) {
+      break;
+    }
+    closes = !closes;
+  }
+
+  const next = input[at];
+  const ascii = PUNCTUATION[next] ?? next;
+  const terminated =
+    at === -1 ||
+    ',:}]'.includes(ascii) ||
+    (ascii === ')' && inTuple) ||
+    (next === '/' && isCommentStart(input[at + 1]));
+  return terminated === closes;
+}
+
+/**
+ * Where a string value ends after the quote at `index` was kept as part of it:
+ * the next quote that closes it, the end of input when the string is truncated,
+ * or -1 when no quote closes it before the closer of a container
+ */
+function findStringEnd(input: string, index: number, delimiter: string, inTuple: boolean): number {
+  let closer = false;
+  for (let i = index + 1; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === delimiter && isClosingQuote(input, i, inTuple)) {
+      return i;
+    } else {
+      const ascii = PUNCTUATION[char] ?? char;
+      closer ||= ascii === '}' || ascii === ']' || (ascii === ')' && inTuple);
+    }
+  }
+  return closer ? -1 : input.length;
+}
+
+/**
+ * Whether text contains a character that opens or closes a string
+ */
+export function containsQuote(text: string): boolean {
+  for (const char of text) {
+    if (char in QUOTES) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * The next non-whitespace character at or after `from`
+ */
+export function nextSignificant(input: string, from: number): string | undefined {
+  const at = nextSignificantIndex(input, from);
+  return at === -1 ? undefined : input[at];
+}
+
+function nextSignificantIndex(input: string, from: number): number {
+  for (let i = from; i < input.length; i++) {
+    if (!/\s/.test(input[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Offsets at which each line starts
+ */
+export function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Convert an offset into a 1-based line/column position
+ */
+export function toPosition(lines: number[], offset: number): SourcePosition {
+  let low = 0;
+  let high = lines.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lines[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { offset, line: low + 1, column: offset - lines[low] + 1 };
+}
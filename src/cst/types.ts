@@ -0,0 +1,151 @@
+/**
+ * 💎 loot-json concrete syntax tree types
+ */
+
+import type { CustomRepairRule } from '../types';
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+/**
+ * Token categories
+ * - 'punctuation': { } [ ] ( ) : , (full-width forms included)
+ * - 'string': a quoted string (", ', `, curly quotes), terminated or not
+ * - 'bare': an unquoted word or number (true, None, 0x1F, key)
+ * - 'whitespace' / 'comment': trivia
+ * - 'unknown': text that cannot start any JSON token (; = @ ...)
+ */
+export type CstTokenKind = 'punctuation' | 'string' | 'bare' | 'whitespace' | 'comment' | 'unknown';
+
+/**
+ * A slice of the input
+ * Without custom rules, concatenating every token's text reproduces the input exactly.
+ */
+export interface CstToken {
+  kind: CstTokenKind;
+  /** Text as written (custom rule replacements included) */
+  text: string;
+  /** Offset of the first character in the input */
+  start: number;
+  /** Offset after the last character in the input */
+  end: number;
+  /** ASCII meaning of a punctuation token ('{', ':', ...) */
+  symbol?: string;
+  /** Opening quote of a string token as written ('"', "'", '`', '“', ...) */
+  quote?: string;
+  /** Whether a string or block comment is terminated */
+  closed?: boolean;
+  /** Input offset of each character of `text`, when a custom rule replaced input */
+  offsets?: number[];
+}
+
+// ============================================================================
+// Nodes
+// ============================================================================
+
+/**
+ * A tokens-and-nodes child, in source order
+ */
+export type CstChild = CstToken | CstNode;
+
+export type CstNode = CstDocument | CstObject | CstArray | CstMember | CstItem | CstScalar | CstStray;
+
+/**
+ * Nodes that can appear as a value
+ */
+export type CstValue = CstObject | CstArray | CstScalar;
+
+interface CstNodeBase {
+  /** Every token of the node (trivia included) and its child nodes, in source order */
+  children: CstChild[];
+}
+
+/**
+ * The root: any number of top-level values and the text around them
+ */
+export interface CstDocument extends CstNodeBase {
+  type: 'document';
+  values: CstValue[];
+}
+
+export interface CstObject extends CstNodeBase {
+  type: 'object';
+  /** The '{' (missing when the object was opened in earlier, separately parsed input) */
+  open?: CstToken;
+  /** The '}' (missing when the object is unclosed; another closer when it ended the object by mistake) */
+  close?: CstToken;
+  members: CstMember[];
+  /** Why `close` is missing: the input ended, or the closer of an outer container came first */
+  unclosed?: 'eof' | 'mismatch';
+}
+
+/**
+ * A key/value pair with its colon and comma; any part may be missing
+ */
+export interface CstMember extends CstNodeBase {
+  type: 'member';
+  key?: CstScalar;
+  colon?: CstToken;
+  value?: CstValue;
+  comma?: CstToken;
+}
+
+/**
+ * An array, or a Python tuple when opened with '('
+ */
+export interface CstArray extends CstNodeBase {
+  type: 'array';
+  /** The '[' or '(' (missing when the array was opened in earlier, separately parsed input) */
+  open?: CstToken;
+  /** The ']' or ')' (missing when the array is unclosed; another closer when it ended the array by mistake) */
+  close?: CstToken;
+  items: CstItem[];
+  tuple: boolean;
+  /** Why `close` is missing: the input ended, or the closer of an outer container came first */
+  unclosed?: 'eof' | 'mismatch';
+}
+
+/**
+ * An array element with its comma; the value is missing for an empty slot ([1,,2])
+ */
+export interface CstItem extends CstNodeBase {
+  type: 'item';
+  value?: CstValue;
+  comma?: CstToken;
+}
+
+/**
+ * A string, number, literal or other unquoted word
+ */
+export interface CstScalar extends CstNodeBase {
+  type: 'scalar';
+  token: CstToken;
+}
+
+/**
+ * Text that fits nowhere: an unknown token, or a closer without a matching opener
+ */
+export interface CstStray extends CstNodeBase {
+  type: 'stray';
+  token: CstToken;
+}
+
+// ============================================================================
+// Options
+// ============================================================================
+
+/**
+ * Options for parseCst
+ */
+export interface CstParseOptions {
+  /**
+   * A '"' or "'" inside a string value only closes it when followed by , : } ] or another
+   * string, so `"He said "hi" to me"` and `'O'Brien'` stay one string (keys always close
+   * at the first quote)
+   * @default true
+   */
+  unescapedQuotes?: boolean;
+  /** Custom rules whose onChar hooks rewrite the input while it is tokenized @default [] */
+  customRules?: CustomRepairRule[];
+}
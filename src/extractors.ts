@@ -2,21 +2,53 @@
  * Extraction strategies for finding JSON in messy text
  */
 
+import { CandidateSource, DEFAULT_EXTRACTION_STRATEGIES, ExtractionOptions, ExtractionStrategy } from './types';
+
+const DEFAULT_XML_TAGS = ['json', 'answer'];
+
+const QUOTE = 0x22; // "
+const BACKSLASH = 0x5c; // backslash
+const OPEN_BRACE = 0x7b; // {
+const CLOSE_BRACE = 0x7d; // }
+const OPEN_BRACKET = 0x5b; // [
+const CLOSE_BRACKET = 0x5d; // ]
+
+/**
+ * A candidate with its location in the input text
+ */
+export interface CandidateRegion {
+  text: string;
+  /** Offset of the candidate in the input (-1 if unknown) */
+  start: number;
+  /** End offset (exclusive, -1 if unknown) */
+  end: number;
+  source: CandidateSource;
+  /** Number of configured strategies after the one that found it (0 for the last) */
+  priority?: number;
+  /** Unbalanced tail that needs completion */
+  truncated?: boolean;
+}
+
 /**
  * Extract JSON from markdown code blocks
- * Supports ```json, ``` and ~~~json, ~~~ variants
+ * Supports ```json, ```json5, ```jsonc, ``` and ~~~ variants
  */
 export function extractFromMarkdown(text: string): string[] {
-  const results: string[] = [];
+  return markdownRegions(text).map((region) => region.text);
+}
+
+function markdownRegions(text: string): CandidateRegion[] {
+  const results: CandidateRegion[] = [];
 
   // Match ```json ... ``` or ~~~ json ... ~~~
-  const codeBlockRegex = /(?:```(?:json)?\s*\n?([\s\S]*?)```|~~~(?:json)?\s*\n?([\s\S]*?)~~~)/gi;
+  const codeBlockRegex =
+    /(?:```(?:json5?|jsonc)?\s*\n?([\s\S]*?)```|~~~(?:json5?|jsonc)?\s*\n?([\s\S]*?)~~~)/gi;
 
   let match;
   while ((match = codeBlockRegex.exec(text)) !== null) {
     const content = match[1] || match[2];
     if (content?.trim()) {
-      results.push(content.trim());
+      results.push(toRegion(text, content.trim(), match.index, 'markdown'));
     }
   }
 
@@ -24,82 +56,363 @@ export function extractFromMarkdown(text: string): string[] {
 }
 
 /**
- * Extract JSON objects/arrays by finding balanced braces
+ * Extract the content of XML-style tags such as `<json>...</json>` or `<answer>...</answer>`
+ *
+ * - Tag names are case-insensitive and may carry attributes (`<answer format="json">`)
+ * - When configured tags are nested, only the innermost content is returned
+ * - CDATA sections are unwrapped, and tags inside them are ignored
+ * - An unclosed tag (truncated output) yields its content up to the end of the text
  */
-export function extractByBraces(text: string): string[] {
-  const results: string[] = [];
-  const chars = text.split('');
+export function extractFromXmlTags(text: string, tags: string[] = DEFAULT_XML_TAGS): string[] {
+  return xmlTagRegions(text, tags).map((region) => region.text);
+}
 
-  for (let i = 0; i < chars.length; i++) {
-    const char = chars[i];
+function xmlTagRegions(text: string, tags: string[] = DEFAULT_XML_TAGS): CandidateRegion[] {
+  if (tags.length === 0) {
+    return [];
+  }
 
-    if (char === '{' || char === '[') {
-      const extracted = extractBalanced(text, i, char === '{' ? ['{', '}'] : ['[', ']']);
-      if (extracted) {
-        results.push(extracted);
-      }
+  const names = tags.map(escapeRegExp).join('|');
+  const tokenRegex = new RegExp(
+    `<!\\[CDATA\\[[\\s\\S]*?(?:\\]\\]>|$)|<(\\/?)(${names})(?:\\s[^>]*)?>`,
+    'gi'
+  );
+
+  const results: CandidateRegion[] = [];
+  const stack: Array<{ name: string; contentStart: number; hasChild: boolean }> = [];
+
+  let match;
+  while ((match = tokenRegex.exec(text)) !== null) {
+    // CDATA section: skip over it
+    if (match[2] === undefined) {
+      continue;
+    }
+
+    const name = match[2].toLowerCase();
+    if (!match[1]) {
+      stack.push({ name, contentStart: match.index + match[0].length, hasChild: false });
+      continue;
+    }
+
+    // Closing tag: match the nearest open tag with the same name
+    let openIndex = stack.length - 1;
+    while (openIndex >= 0 && stack[openIndex].name !== name) {
+      openIndex--;
     }
+    if (openIndex === -1) {
+      continue;
+    }
+
+    const [open] = stack.splice(openIndex);
+    if (!open.hasChild) {
+      results.push(...narrowToJson(text, open.contentStart, match.index, 'xml'));
+    }
+    if (openIndex > 0) {
+      stack[openIndex - 1].hasChild = true;
+    }
+  }
+
+  const unclosed = stack[stack.length - 1];
+  if (unclosed && !unclosed.hasChild) {
+    results.push(...narrowToJson(text, unclosed.contentStart, text.length, 'xml'));
   }
 
   return results;
 }
 
 /**
- * Extract a balanced substring starting from a given position
+ * Extract text between custom delimiter pairs, e.g. `[['<<<JSON', 'JSON>>>']]`
+ * A missing closing delimiter (truncated output) yields the rest of the text
  */
-function extractBalanced(text: string, start: number, brackets: [string, string]): string | null {
-  const [open, close] = brackets;
-  let depth = 0;
-  let inString = false;
-  let escapeNext = false;
+export function extractByDelimiters(text: string, delimiters: Array<[string, string]>): string[] {
+  return delimiterRegions(text, delimiters).map((region) => region.text);
+}
 
-  for (let i = start; i < text.length; i++) {
-    const char = text[i];
+function delimiterRegions(text: string, delimiters: Array<[string, string]>): CandidateRegion[] {
+  const results: CandidateRegion[] = [];
 
-    if (escapeNext) {
-      escapeNext = false;
+  for (const [open, close] of delimiters) {
+    if (!open || !close) {
       continue;
     }
 
-    if (char === '\\' && inString) {
-      escapeNext = true;
-      continue;
+    let from = 0;
+    while (from < text.length) {
+      const start = text.indexOf(open, from);
+      if (start === -1) {
+        break;
+      }
+
+      const contentStart = start + open.length;
+      const end = text.indexOf(close, contentStart);
+      if (end === -1) {
+        results.push(...narrowToJson(text, contentStart, text.length, 'delimiters'));
+        break;
+      }
+
+      results.push(...narrowToJson(text, contentStart, end, 'delimiters'));
+      from = end + close.length;
     }
+  }
+
+  return results;
+}
+
+/**
+ * Extract JSON objects/arrays by finding balanced braces (including nested ones)
+ */
+export function extractByBraces(text: string): string[] {
+  return scanBalancedRegions(text, { nested: true }).regions.map((region) => region.text);
+}
+
+/**
+ * Extract an unbalanced trailing JSON value (e.g. output cut off by max_tokens)
+ * Returns the text from the outermost unclosed '{' or '[' to the end, or null
+ */
+export function extractTruncatedTail(text: string): string | null {
+  const start = scanBalancedRegions(text).truncatedStart;
+  return start === -1 ? null : text.slice(start);
+}
+
+/**
+ * A balanced `{...}` or `[...]` region
+ */
+export interface BalancedRegion {
+  /** Offset of the opening bracket */
+  start: number;
+  /** Offset after the closing bracket */
+  end: number;
+  /** Region text */
+  text: string;
+}
+
+/**
+ * Result of scanBalancedRegions
+ */
+export interface BalancedScan {
+  /** Balanced regions ordered by start offset */
+  regions: BalancedRegion[];
+  /** Offset of the outermost '{' or '[' that is never closed (-1 if none) */
+  truncatedStart: number;
+}
+
+/**
+ * An opening '{' or '[' waiting for its closer
+ */
+interface OpenBracket {
+  start: number;
+  code: number;
+  /** Number of brackets below it that are open and not mismatched */
+  depth: number;
+  /** Closed by an outer closer (`{"a": [1, 2}`), but a later closer may still end it */
+  mismatched: boolean;
+}
 
-    if (char === '"') {
-      inString = !inString;
+/**
+ * Find balanced regions in a single O(n) pass
+ *
+ * Braces and brackets share one stack. A closer that does not match the innermost
+ * bracket closes the nearest matching one (`{"a": [1, 2}`), which stays on the stack
+ * in case a later closer ends it (`{"a": [1, 2}, "b": 3}`): both spans are returned.
+ * String state is only tracked inside a region, so quotes in surrounding prose do not interfere.
+ *
+ * @param options.nested - Also return regions nested inside other regions @default false
+ */
+export function scanBalancedRegions(text: string, options: { nested?: boolean } = {}): BalancedScan {
+  const nested = options.nested ?? false;
+  const regions: BalancedRegion[] = [];
+  const stack: OpenBracket[] = [];
+  // Brackets of each kind on the stack, to skip closers without an opener
+  const counts: Record<number, number> = { [OPEN_BRACE]: 0, [OPEN_BRACKET]: 0 };
+  let inString = false;
+  let escapeNext = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+
+    if (inString) {
+      if (escapeNext) {
+        escapeNext = false;
+      } else if (code === BACKSLASH) {
+        escapeNext = true;
+      } else if (code === QUOTE) {
+        inString = false;
+      }
       continue;
     }
 
-    if (!inString) {
-      if (char === open) {
-        depth++;
-      } else if (char === close) {
-        depth--;
-        if (depth === 0) {
-          return text.slice(start, i + 1);
+    if (code === QUOTE) {
+      const top = stack[stack.length - 1];
+      inString = top !== undefined && (top.depth > 0 || !top.mismatched);
+    } else if (code === OPEN_BRACE || code === OPEN_BRACKET) {
+      const top = stack[stack.length - 1];
+      const depth = top === undefined ? 0 : top.depth + (top.mismatched ? 0 : 1);
+      stack.push({ start: i, code, depth, mismatched: false });
+      counts[code]++;
+    } else if (code === CLOSE_BRACE || code === CLOSE_BRACKET) {
+      const opener = code === CLOSE_BRACE ? OPEN_BRACE : OPEN_BRACKET;
+      if (counts[opener] === 0) {
+        continue;
+      }
+
+      let index = stack.length - 1;
+      while (stack[index].code !== opener) {
+        index--;
+      }
+      const bracket = stack[index];
+      if (nested || bracket.depth === 0) {
+        regions.push({ start: bracket.start, end: i + 1, text: text.slice(bracket.start, i + 1) });
+      }
+
+      if (index === stack.length - 1) {
+        stack.pop();
+        counts[opener]--;
+      } else {
+        // The brackets opened inside it are left unclosed
+        for (const inner of stack.splice(index + 1)) {
+          counts[inner.code]--;
         }
+        bracket.mismatched = true;
       }
     }
   }
 
-  return null;
+  const unclosed = stack.find((bracket) => !bracket.mismatched);
+  const truncatedStart = unclosed ? unclosed.start : -1;
+
+  // Regions are recorded when they close; report them by start offset
+  regions.sort((a, b) => a.start - b.start);
+
+  return { regions, truncatedStart };
 }
 
 /**
  * Find all potential JSON candidates in text
+ * Candidates are ordered by strategy priority (see `ExtractionOptions.strategies`)
+ */
+export function findJsonCandidates(text: string, options: ExtractionOptions = {}): string[] {
+  // Remove duplicates while preserving order
+  return [...new Set(findCandidateRegions(text, options).map((region) => region.text))];
+}
+
+/**
+ * Find all candidates with their locations, in strategy priority order (duplicates kept)
  */
-export function findJsonCandidates(text: string): string[] {
-  const candidates: string[] = [];
+export function findCandidateRegions(text: string, options: ExtractionOptions = {}): CandidateRegion[] {
+  const { strategies = DEFAULT_EXTRACTION_STRATEGIES, xmlTags, delimiters = [] } = options;
+  const regions: CandidateRegion[] = [];
 
-  // First, try markdown code blocks (highest priority)
-  const markdownResults = extractFromMarkdown(text);
-  candidates.push(...markdownResults);
+  strategies.forEach((strategy, index) => {
+    for (const region of strategyRegions(text, strategy, xmlTags, delimiters)) {
+      regions.push({ ...region, priority: strategies.length - 1 - index });
+    }
+  });
 
-  // Then, try to find JSON by balanced braces
-  const braceResults = extractByBraces(text);
-  candidates.push(...braceResults);
+  return regions;
+}
 
-  // Remove duplicates while preserving order
-  return [...new Set(candidates)];
+function strategyRegions(
+  text: string,
+  strategy: ExtractionStrategy,
+  xmlTags: string[] | undefined,
+  delimiters: Array<[string, string]>
+): CandidateRegion[] {
+  if (typeof strategy === 'function') {
+    return strategy(text).map((candidate): CandidateRegion => {
+      const start = text.indexOf(candidate);
+      return { text: candidate, start, end: start === -1 ? -1 : start + candidate.length, source: 'custom' };
+    });
+  }
+
+  switch (strategy) {
+    case 'delimiters':
+      return delimiterRegions(text, delimiters);
+    case 'xml':
+      return xmlTagRegions(text, xmlTags);
+    case 'markdown':
+      return markdownRegions(text);
+    case 'braces':
+      return braceRegions(text);
+  }
+  return [];
+}
+
+/**
+ * Balanced regions plus the truncated tail
+ */
+function braceRegions(text: string): CandidateRegion[] {
+  const regions: CandidateRegion[] = [];
+  const { regions: braceResults, truncatedStart: tailStart } = scanBalancedRegions(text, {
+    nested: true,
+  });
+
+  // A truncated tail goes before the balanced regions nested inside it,
+  // so the outer (cut-off) value wins over its fragments
+  const tail: CandidateRegion = {
+    text: text.slice(tailStart),
+    start: tailStart,
+    end: text.length,
+    source: 'braces',
+    truncated: true,
+  };
+  let tailAdded = tailStart === -1;
+
+  for (const region of braceResults) {
+    if (!tailAdded && region.start > tailStart) {
+      regions.push(tail);
+      tailAdded = true;
+    }
+    regions.push({ text: region.text, start: region.start, end: region.end, source: 'braces' });
+  }
+
+  if (!tailAdded) {
+    regions.push(tail);
+  }
+
+  return regions;
+}
+
+/**
+ * Reduce delimited content to its JSON part (a fenced block or the first balanced value)
+ */
+function narrowToJson(
+  text: string,
+  contentStart: number,
+  contentEnd: number,
+  source: CandidateSource
+): CandidateRegion[] {
+  const content = text.slice(contentStart, contentEnd);
+  const trimmed = content.replace(/<!\[CDATA\[([\s\S]*?)(?:\]\]>|$)/g, '$1').trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  let narrowed = trimmed;
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    const fenced = extractFromMarkdown(trimmed);
+    const start = trimmed.search(/[[{]/);
+
+    if (fenced.length > 0) {
+      return fenced.map((block) => toRegion(text, block, contentStart, source));
+    } else if (start !== -1) {
+      const { regions } = scanBalancedRegions(trimmed.slice(start));
+      narrowed = regions[0]?.start === 0 ? regions[0].text : trimmed.slice(start);
+    }
+  }
+
+  return [toRegion(text, narrowed, contentStart, source)];
+}
+
+/**
+ * Locate a candidate in the input, searching from `from`
+ * (falls back to `from` when the candidate was transformed, e.g. CDATA unwrapped)
+ */
+function toRegion(text: string, candidate: string, from: number, source: CandidateSource): CandidateRegion {
+  const found = text.indexOf(candidate, from);
+  const start = found === -1 ? from : found;
+  return { text: candidate, start, end: start + candidate.length, source };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
@@ -3,21 +3,40 @@
  * Tracks field completion status during incremental parsing
  */
 
+import { parsePath, PathSegment } from '../lootField';
+import { formatPath, matchPath } from './paths';
+import type { PathKey } from './types';
+
 export class FieldTracker {
   private trackedFields: Set<string>;
+  private patterns: PathSegment[][];
   private completedFields: Map<string, unknown> = new Map();
 
   constructor(fields: string[] = []) {
     this.trackedFields = new Set(fields);
+    this.patterns = fields.map((field) => parsePath(field));
   }
 
   /**
    * Check if a field should be tracked
+   * Fields accept lootField paths: 'response.dialogue', 'actions[*].type', '**.id'
+   *
+   * @param field - Formatted field path
+   * @param path - Concrete path segments (defaults to parsing `field`)
    */
-  isTracking(field: string): boolean {
-    // If no fields specified, track all
-    if (this.trackedFields.size === 0) return true;
-    return this.trackedFields.has(field);
+  isTracking(field: string, path?: PathKey[]): boolean {
+    // If no fields specified, track all top-level fields
+    if (this.trackedFields.size === 0) {
+      return path ? path.length === 1 : true;
+    }
+
+    if (this.trackedFields.has(field)) return true;
+
+    // Raw top-level key, e.g. fields: ['my.key']
+    if (path && path.length === 1 && this.trackedFields.has(String(path[0]))) return true;
+
+    const concrete = path ?? toPathKeys(parsePath(field));
+    return this.patterns.some((pattern) => matchPath(pattern, concrete));
   }
 
   /**
@@ -33,14 +52,14 @@ export class FieldTracker {
    * Check if a field is complete
    */
   isComplete(field: string): boolean {
-    return this.completedFields.has(field);
+    return this.completedFields.has(this.resolveName(field));
   }
 
   /**
    * Get the value of a completed field
    */
   getField(field: string): unknown | undefined {
-    return this.completedFields.get(field);
+    return this.completedFields.get(this.resolveName(field));
   }
 
   /**
@@ -61,6 +80,14 @@ export class FieldTracker {
     return Array.from(this.completedFields.keys());
   }
 
+  /**
+   * Map an equivalent path spelling (e.g. 'a["b"]') to the stored field name ('a.b')
+   */
+  private resolveName(field: string): string {
+    if (this.completedFields.has(field)) return field;
+    return formatPath(toPathKeys(parsePath(field)));
+  }
+
   /**
    * Reset the tracker
    */
@@ -68,3 +95,16 @@ export class FieldTracker {
     this.completedFields.clear();
   }
 }
+
+/**
+ * Convert concrete (wildcard-free) segments into path keys
+ */
+function toPathKeys(segments: PathSegment[]): PathKey[] {
+  const keys: PathKey[] = [];
+  for (const segment of segments) {
+    if (segment.type === 'key' || segment.type === 'index') {
+      keys.push(segment.value);
+    }
+  }
+  return keys;
+}
@@ -10,11 +10,20 @@
  */
 
 import { repairJson } from '../repairs';
+import { DEFAULT_REPAIR_RULES, LootError, RepairRules } from '../types';
 import { FieldTracker } from './FieldTracker';
+import { ChunkDecoder, createEventQueue } from './events';
+import { formatPath } from './paths';
 import {
+  EventTransformStream,
+  IncrementalChunk,
+  IncrementalEvent,
   IncrementalLootOptions,
   IncrementalResult,
+  IncrementalSnapshot,
   ParserState,
+  PathFrame,
+  PathKey,
   ProgressInfo,
   RecoveryInfo,
 } from './types';
@@ -22,6 +31,13 @@ import {
 // Default max buffer size: 64KB
 const DEFAULT_MAX_BUFFER_SIZE = 64 * 1024;
 
+const LITERALS = ['true', 'false', 'null'];
+
+// Snapshot rules when repair is disabled: only complete the truncated tail
+const CLOSE_ONLY_RULES = Object.fromEntries(
+  Object.keys(DEFAULT_REPAIR_RULES).map((rule) => [rule, rule === 'closeTruncated'])
+) as Required<RepairRules>;
+
 /**
  * Incremental JSON parser for streaming LLM responses
  *
@@ -57,6 +73,8 @@ export class IncrementalLoot<T = unknown> {
   private processedIndex: number = 0;
   private bytesProcessed: number = 0;
   private jsonStartPosition: number = -1;
+  private jsonEndPosition: number = -1;
+  private documents: T[] = [];
   private lastCompactPosition: number = 0;
   private recoveryAttempts: number = 0;
   private maxRecoveryAttempts: number = 3;
@@ -85,6 +103,14 @@ export class IncrementalLoot<T = unknown> {
     // Process the buffer
     this.processBuffer();
 
+    // Drop completed documents and text between them
+    if (this.options.multiple) {
+      const cut = this.jsonStartPosition !== -1 ? this.jsonStartPosition : this.processedIndex;
+      if (cut > 0) {
+        this.discardBuffer(cut);
+      }
+    }
+
     // Report progress
     this.reportProgress();
 
@@ -93,6 +119,7 @@ export class IncrementalLoot<T = unknown> {
 
   /**
    * Get the final parsed result (call after streaming is complete)
+   * In multiple mode, returns the most recently completed document
    */
   getResult(): T | null {
     if (!this.result && this.state.jsonComplete) {
@@ -101,6 +128,13 @@ export class IncrementalLoot<T = unknown> {
     return this.result;
   }
 
+  /**
+   * Get all documents completed so far (multiple mode)
+   */
+  getDocuments(): T[] {
+    return [...this.documents];
+  }
+
   /**
    * Get current parsing statistics
    */
@@ -129,10 +163,106 @@ export class IncrementalLoot<T = unknown> {
     this.processedIndex = 0;
     this.bytesProcessed = 0;
     this.jsonStartPosition = -1;
+    this.jsonEndPosition = -1;
+    this.documents = [];
     this.lastCompactPosition = 0;
     this.recoveryAttempts = 0;
   }
 
+  // ============================================================================
+  // Stream Adapters
+  // ============================================================================
+
+  /**
+   * Parse an async iterable of chunks and yield typed events
+   *
+   * Accepts strings or UTF-8 bytes. In single-document mode the source is
+   * released as soon as the JSON completes; if it ends first, an `error`
+   * event is yielded instead of `complete`.
+   *
+   * @example
+   * ```ts
+   * for await (const event of IncrementalLoot.fromAsyncIterable(stream, { fields: ['dialogue'] })) {
+   *   if (event.type === 'fieldComplete') console.log(event.field, event.value);
+   * }
+   * ```
+   */
+  static async *fromAsyncIterable<T = unknown>(
+    source: AsyncIterable<IncrementalChunk>,
+    options: IncrementalLootOptions = {}
+  ): AsyncGenerator<IncrementalEvent<T>, void, undefined> {
+    const events = createEventQueue<T>(options);
+    const parser = new IncrementalLoot<T>(events.options);
+    const decoder = new ChunkDecoder();
+
+    try {
+      for await (const chunk of source) {
+        parser.addChunk(decoder.decode(chunk));
+        yield* events.drain();
+
+        if (!options.multiple && parser.getStats().isComplete) {
+          return;
+        }
+      }
+
+      const rest = decoder.flush();
+      if (rest) {
+        parser.addChunk(rest);
+      }
+      events.finish(parser);
+    } catch (error) {
+      events.push({ type: 'error', error: error instanceof Error ? error : new Error(String(error)) });
+    }
+
+    yield* events.drain();
+  }
+
+  /**
+   * Create a Web Streams `TransformStream` from chunks to typed events
+   * Needs a runtime with a global `TransformStream` (Node.js 18+, browsers, Deno, Bun)
+   *
+   * @example
+   * ```ts
+   * const transform = IncrementalLoot.toTransformStream({ fields: ['dialogue'] });
+   * const events = response.body!.pipeThrough(transform as TransformStream<IncrementalChunk, IncrementalEvent>);
+   * ```
+   *
+   * @throws {LootError} with code 'UNSUPPORTED_RUNTIME' when `TransformStream` is not available
+   */
+  static toTransformStream<T = unknown>(
+    options: IncrementalLootOptions = {}
+  ): EventTransformStream<IncrementalChunk, IncrementalEvent<T>> {
+    if (typeof globalThis.TransformStream !== 'function') {
+      throw new LootError(
+        'TransformStream is not available in this runtime (Node.js 18+ required); use loot-json/node instead',
+        'UNSUPPORTED_RUNTIME'
+      );
+    }
+
+    const events = createEventQueue<T>(options);
+    const parser = new IncrementalLoot<T>(events.options);
+    const decoder = new ChunkDecoder();
+
+    return new TransformStream<IncrementalChunk, IncrementalEvent<T>>({
+      transform(chunk, controller) {
+        parser.addChunk(decoder.decode(chunk));
+        for (const event of events.drain()) {
+          controller.enqueue(event);
+        }
+      },
+      flush(controller) {
+        const rest = decoder.flush();
+        if (rest) {
+          parser.addChunk(rest);
+        }
+        events.finish(parser);
+        for (const event of events.drain()) {
+          controller.enqueue(event);
+        }
+      },
+    });
+  }
+
   // ============================================================================
   // Buffer Management (v0.4.0)
   // ============================================================================
@@ -144,28 +274,41 @@ export class IncrementalLoot<T = unknown> {
       return;
     }
 
-    // Find safe compaction point (after completed fields)
+    // Find safe compaction point (before the JSON start)
     const safePoint = this.findSafeCompactionPoint();
 
     if (safePoint > this.lastCompactPosition) {
       // Keep content from safePoint onwards
-      const discarded = safePoint - this.lastCompactPosition;
-      this.buffer = this.buffer.substring(safePoint);
-      this.processedIndex = Math.max(0, this.processedIndex - safePoint);
-      this.jsonStartPosition = Math.max(-1, this.jsonStartPosition - safePoint);
+      this.discardBuffer(safePoint);
       this.lastCompactPosition = 0;
+    }
+  }
 
-      // Adjust state positions
-      if (this.state.keyStart !== -1) {
-        this.state.keyStart -= safePoint;
-      }
-      if (this.state.valueStart !== -1) {
-        this.state.valueStart -= safePoint;
-      }
+  /**
+   * Drop the first `count` characters of the buffer and shift all positions
+   */
+  private discardBuffer(count: number): void {
+    const { state } = this;
 
-      // Log compaction if debugging
-      if (discarded > 0 && this.options.onProgress) {
-        // Compaction happened, but we don't interrupt progress
+    this.buffer = this.buffer.substring(count);
+    this.processedIndex = Math.max(0, this.processedIndex - count);
+
+    if (this.jsonStartPosition !== -1) {
+      this.jsonStartPosition -= count;
+    }
+    if (this.jsonEndPosition !== -1) {
+      this.jsonEndPosition -= count;
+    }
+    if (state.stringStart !== -1) {
+      state.stringStart -= count;
+    }
+    if (state.streamFrom !== -1) {
+      state.streamFrom -= count;
+    }
+    for (const frame of state.frames) {
+      frame.start -= count;
+      if (frame.childStart !== -1) {
+        frame.childStart -= count;
       }
     }
   }
@@ -176,14 +319,8 @@ export class IncrementalLoot<T = unknown> {
       return 0;
     }
 
-    // Don't compact past active key/value
-    const minKeep = Math.min(
-      this.state.keyStart === -1 ? this.buffer.length : this.state.keyStart,
-      this.state.valueStart === -1 ? this.buffer.length : this.state.valueStart
-    );
-
-    // Keep at least from JSON start
-    return Math.min(minKeep, this.jsonStartPosition);
+    // Every open value starts at or after the JSON start
+    return this.jsonStartPosition;
   }
 
   // ============================================================================
@@ -203,7 +340,7 @@ export class IncrementalLoot<T = unknown> {
     const trackedFields = this.options.fields;
     if (trackedFields && trackedFields.length > 0) {
       const completedCount = progress.fieldsCompleted.length;
-      progress.estimatedProgress = completedCount / trackedFields.length;
+      progress.estimatedProgress = Math.min(1, completedCount / trackedFields.length);
     }
 
     this.options.onProgress(progress);
@@ -218,17 +355,20 @@ export class IncrementalLoot<T = unknown> {
       depth: 0,
       inString: false,
       escapeNext: false,
-      currentKey: '',
-      keyStart: -1,
-      valueStart: -1,
       jsonStarted: false,
+      prose: false,
       jsonComplete: false,
-      valueDepth: 0,
+      frames: [],
+      stringIsKey: false,
+      stringStart: -1,
+      streamField: null,
+      streamFrom: -1,
     };
   }
 
   private processBuffer(): void {
     const { state } = this;
+    let processedEnd = this.buffer.length;
 
     for (let i = this.processedIndex; i < this.buffer.length; i++) {
       const char = this.buffer[i];
@@ -244,8 +384,13 @@ export class IncrementalLoot<T = unknown> {
         continue;
       }
 
+      // Text before the root value
+      if (!state.jsonStarted && !state.inString && char !== '{' && char !== '[' && !/\s/.test(char)) {
+        state.prose = true;
+      }
+
       // Handle string boundaries
-      if (char === '"' && !state.escapeNext) {
+      if (char === '"') {
         this.handleQuote(i);
         continue;
       }
@@ -255,26 +400,39 @@ export class IncrementalLoot<T = unknown> {
         continue;
       }
 
+      // A '[' only starts the document if a JSON value follows
+      if (char === '[' && !state.jsonStarted) {
+        const isStart = this.isArrayStart(i);
+        if (isStart === null) {
+          // Wait for more data
+          processedEnd = i;
+          break;
+        }
+        if (!isStart) {
+          continue;
+        }
+      }
+
       // Handle structural characters
       switch (char) {
         case '{':
-          this.handleOpenBrace(i);
-          break;
-        case '}':
-          this.handleCloseBrace(i);
+          this.handleOpen('object', i);
           break;
         case '[':
-          this.handleOpenBracket(i);
+          this.handleOpen('array', i);
           break;
+        case '}':
         case ']':
-          this.handleCloseBracket(i);
-          break;
-        case ':':
-          this.handleColon(i);
+          this.handleClose(i);
           break;
         case ',':
           this.handleComma(i);
           break;
+        case ':':
+          break;
+        default:
+          this.handleOtherChar(char, i);
+          break;
       }
 
       // Early exit if complete
@@ -283,42 +441,81 @@ export class IncrementalLoot<T = unknown> {
       }
     }
 
-    this.processedIndex = this.buffer.length;
+    // Emit what has arrived of a streamed string value
+    if (state.inString && state.streamField !== null) {
+      this.flushStream(this.buffer.length, false);
+    }
+
+    this.processedIndex = processedEnd;
+  }
+
+  /**
+   * Decide whether the '[' at `position` opens a JSON array
+   * After prose, only an object, array or string may follow: `see [1]` is a citation.
+   * Returns null when more data is needed to tell
+   */
+  private isArrayStart(position: number): boolean | null {
+    let next = position + 1;
+    while (next < this.buffer.length && /\s/.test(this.buffer[next])) {
+      next++;
+    }
+    if (next >= this.buffer.length) return null;
+
+    const char = this.buffer[next];
+    if (/[{["]/.test(char)) return true;
+    if (this.state.prose) return false;
+    if (/[\]\-\d]/.test(char)) return true;
+
+    const literal = LITERALS.find((l) => l[0] === char);
+    if (!literal) return false;
+
+    const rest = this.buffer.slice(next, next + literal.length);
+    if (!literal.startsWith(rest)) return false;
+    return rest.length === literal.length ? true : null;
   }
 
   private handleQuote(position: number): void {
     const { state, options } = this;
+    const frame = this.currentFrame();
 
     if (!state.inString) {
       // Starting a string
       state.inString = true;
+      state.stringStart = position;
+      state.stringIsKey = frame?.type === 'object' && frame.key === null;
+
+      if (frame && !state.stringIsKey) {
+        this.startChild(frame, position, false);
+        this.maybeStartStream([...frame.path, childKey(frame)], position + 1);
+      }
+      return;
+    }
+
+    // Ending a string
+    state.inString = false;
+    if (!frame) return;
 
-      // Check if this is a key (depth 1, no value started)
-      if (state.depth === 1 && state.valueStart === -1 && state.currentKey === '') {
-        state.keyStart = position;
+    if (state.stringIsKey) {
+      // Just finished reading a key
+      frame.key = this.decodeString(state.stringStart, position);
+
+      // Notify field start
+      const path = [...frame.path, frame.key];
+      const field = formatPath(path);
+      if (options.onFieldStart && this.fieldTracker.isTracking(field, path)) {
+        options.onFieldStart(field);
       }
     } else {
-      // Ending a string
-      state.inString = false;
-
-      if (state.keyStart !== -1 && state.valueStart === -1) {
-        // Just finished reading a key
-        const key = this.buffer.slice(state.keyStart + 1, position);
-        state.currentKey = key;
-        state.keyStart = -1;
-
-        // Notify field start
-        if (options.onFieldStart && this.fieldTracker.isTracking(key)) {
-          options.onFieldStart(key);
-        }
-      } else if (state.valueStart !== -1 && state.valueDepth === 0) {
-        // Finished reading a string value at top level
-        this.tryCompleteField(position + 1);
+      // Finished reading a string value
+      frame.childOpen = false;
+      if (state.streamField !== null) {
+        this.flushStream(position, true);
       }
+      this.completeValue([...frame.path, childKey(frame)], frame.childStart, position + 1);
     }
   }
 
-  private handleOpenBrace(position: number): void {
+  private handleOpen(type: PathFrame['type'], position: number): void {
     const { state } = this;
 
     if (!state.jsonStarted) {
@@ -326,112 +523,219 @@ export class IncrementalLoot<T = unknown> {
       this.jsonStartPosition = position;
     }
 
-    state.depth++;
-
-    // Starting a nested object as a value
-    if (state.depth >= 2 && state.valueStart !== -1) {
-      state.valueDepth++;
-    } else if (state.depth === 2 && state.currentKey && state.valueStart === -1) {
-      state.valueDepth = 1;
+    const parent = this.currentFrame();
+    if (parent) {
+      this.startChild(parent, position, false);
     }
+
+    state.frames.push({
+      type,
+      path: parent ? [...parent.path, childKey(parent)] : [],
+      start: position,
+      key: null,
+      index: 0,
+      childOpen: false,
+      childPrimitive: false,
+      childStart: -1,
+    });
+    state.depth++;
   }
 
-  private handleCloseBrace(position: number): void {
+  private handleClose(position: number): void {
     const { state } = this;
+    const frame = state.frames.pop();
+    if (!frame) return;
 
-    if (state.valueDepth > 0) {
-      state.valueDepth--;
-      if (state.valueDepth === 0 && state.valueStart !== -1) {
-        // Completed a nested object value
-        this.tryCompleteField(position + 1);
-      }
-    } else if (state.depth === 1 && state.valueStart !== -1 && state.currentKey) {
-      // Completed a primitive value at the end (before closing brace)
-      this.tryCompleteField(position);
-    }
+    // A primitive right before the closer ends here
+    this.endPrimitive(frame, position);
 
     state.depth--;
 
+    const parent = this.currentFrame();
+    if (parent) {
+      parent.childOpen = false;
+      this.completeValue(frame.path, frame.start, position + 1);
+    }
+
     if (state.depth === 0 && state.jsonStarted) {
       state.jsonComplete = true;
+      this.jsonEndPosition = position + 1;
       this.finalizeResult();
+
+      if (this.options.multiple) {
+        this.startNextDocument();
+      }
     }
   }
 
-  private handleOpenBracket(_position: number): void {
-    const { state } = this;
+  /**
+   * Reset per-document state so the next root value can be parsed (multiple mode)
+   */
+  private startNextDocument(): void {
+    Object.assign(this.state, this.createInitialState());
+    this.fieldTracker.reset();
+    this.jsonStartPosition = -1;
+    this.jsonEndPosition = -1;
+    this.recoveryAttempts = 0;
+  }
+
+  private handleComma(position: number): void {
+    const frame = this.currentFrame();
+    if (!frame) return;
 
-    if (state.valueStart !== -1) {
-      state.valueDepth++;
+    this.endPrimitive(frame, position);
+
+    // Reset for next key-value pair / element
+    if (frame.type === 'array') {
+      frame.index++;
+    } else {
+      frame.key = null;
     }
+    frame.childOpen = false;
+  }
 
-    state.depth++;
+  private handleOtherChar(char: string, position: number): void {
+    const frame = this.currentFrame();
+    if (!frame) return;
+
+    if (/\s/.test(char)) {
+      // Whitespace ends a primitive value
+      this.endPrimitive(frame, position);
+    } else if (!frame.childOpen && (frame.type === 'array' || frame.key !== null)) {
+      // Start of a number, boolean or null
+      this.startChild(frame, position, true);
+    }
+  }
+
+  // ============================================================================
+  // Path Tracking
+  // ============================================================================
+
+  private currentFrame(): PathFrame | undefined {
+    return this.state.frames[this.state.frames.length - 1];
+  }
+
+  private startChild(frame: PathFrame, position: number, primitive: boolean): void {
+    frame.childOpen = true;
+    frame.childPrimitive = primitive;
+    frame.childStart = position;
+  }
+
+  private endPrimitive(frame: PathFrame, position: number): void {
+    if (!frame.childOpen || !frame.childPrimitive) return;
+
+    frame.childOpen = false;
+    frame.childPrimitive = false;
+    this.completeValue([...frame.path, childKey(frame)], frame.childStart, position);
+  }
+
+  private decodeString(start: number, end: number): string {
+    const raw = this.buffer.slice(start, end + 1);
+    try {
+      return JSON.parse(raw) as string;
+    } catch {
+      return raw.slice(1, -1);
+    }
   }
 
-  private handleCloseBracket(position: number): void {
+  private getPendingPaths(): string[] {
     const { state } = this;
+    const pending: string[] = [];
 
-    if (state.valueDepth > 0) {
-      state.valueDepth--;
-      if (state.valueDepth === 0 && state.valueStart !== -1) {
-        // Completed an array value
-        this.tryCompleteField(position + 1);
+    for (const frame of state.frames) {
+      if (frame.path.length > 0) {
+        pending.push(formatPath(frame.path));
       }
     }
 
-    state.depth--;
+    // A string or primitive that is still being read
+    const top = this.currentFrame();
+    if (top && top.childOpen && (state.inString ? !state.stringIsKey : top.childPrimitive)) {
+      pending.push(formatPath([...top.path, childKey(top)]));
+    }
+
+    return pending;
   }
 
-  private handleColon(position: number): void {
-    const { state } = this;
+  // ============================================================================
+  // String Streaming
+  // ============================================================================
 
-    if (state.depth === 1 && state.currentKey && state.valueStart === -1) {
-      // Ready to read value - find actual start after whitespace
-      let valuePos = position + 1;
-      while (valuePos < this.buffer.length && /\s/.test(this.buffer[valuePos])) {
-        valuePos++;
-      }
-      state.valueStart = valuePos;
+  private maybeStartStream(path: PathKey[], from: number): void {
+    const { state, options } = this;
+    if (!options.onValueChunk) return;
+
+    const field = formatPath(path);
+    if (this.fieldTracker.isTracking(field, path) && !this.fieldTracker.isComplete(field)) {
+      state.streamField = field;
+      state.streamFrom = from;
     }
   }
 
-  private handleComma(position: number): void {
-    const { state } = this;
+  /**
+   * Emit the decoded text between the last emitted position and `end`
+   * Incomplete escapes and unpaired high surrogates are held back for the next flush
+   */
+  private flushStream(end: number, complete: boolean): void {
+    const { state, options } = this;
+    const field = state.streamField;
+    if (field === null || !options.onValueChunk) return;
+
+    const { text, consumed } = decodeStringFragment(this.buffer.slice(state.streamFrom, end));
+    state.streamFrom += consumed;
 
-    if (state.depth === 1 && state.valueStart !== -1 && state.valueDepth === 0) {
-      // Completed a primitive value
-      this.tryCompleteField(position);
+    if (text || complete) {
+      options.onValueChunk(field, text, complete);
     }
 
-    // Reset for next key-value pair
-    if (state.depth === 1) {
-      state.currentKey = '';
-      state.keyStart = -1;
-      state.valueStart = -1;
-      state.valueDepth = 0;
+    if (complete) {
+      state.streamField = null;
+      state.streamFrom = -1;
     }
   }
 
-  private tryCompleteField(endPosition: number): void {
-    const { state, options } = this;
-    const key = state.currentKey;
+  // ============================================================================
+  // Snapshots
+  // ============================================================================
 
-    if (!key) return;
+  private createSnapshot(): IncrementalSnapshot<T> {
+    if (this.state.jsonComplete) {
+      return { data: this.getResult() as Partial<T> | null, complete: true, pending: [] };
+    }
 
-    // Check if this is a tracked field
-    if (!this.fieldTracker.isTracking(key)) {
-      this.resetFieldState();
-      return;
+    if (this.jsonStartPosition === -1) {
+      return { data: null, complete: false, pending: [] };
     }
 
-    // Already completed
-    if (this.fieldTracker.isComplete(key)) {
-      this.resetFieldState();
+    let data: Partial<T> | null = null;
+    try {
+      const text = this.buffer.slice(this.jsonStartPosition);
+      const repaired = this.options.repair
+        ? repairJson(text)
+        : repairJson(text, { rules: CLOSE_ONLY_RULES });
+      data = JSON.parse(repaired) as Partial<T>;
+    } catch {
+      // Not parseable yet
+    }
+
+    return { data, complete: false, pending: this.getPendingPaths() };
+  }
+
+  // ============================================================================
+  // Field Completion
+  // ============================================================================
+
+  private completeValue(path: PathKey[], start: number, end: number): void {
+    const { options } = this;
+    const field = formatPath(path);
+
+    // Check if this is a tracked field that is not yet completed
+    if (!this.fieldTracker.isTracking(field, path) || this.fieldTracker.isComplete(field)) {
       return;
     }
 
     // Extract the value string
-    let valueStr = this.buffer.slice(state.valueStart, endPosition).trim();
+    let valueStr = this.buffer.slice(start, end).trim();
 
     // Try to parse the value
     try {
@@ -448,37 +752,35 @@ export class IncrementalLoot<T = unknown> {
         }
       }
 
-      this.fieldTracker.completeField(key, value);
+      this.fieldTracker.completeField(field, value);
 
       // Invoke callback
       if (options.onFieldComplete) {
-        options.onFieldComplete(key, value);
+        options.onFieldComplete(field, value);
       }
 
-      // Send final value chunk
-      if (options.onValueChunk) {
-        options.onValueChunk(key, JSON.stringify(value), true);
+      // Send final value chunk (strings were already streamed)
+      if (options.onValueChunk && typeof value !== 'string') {
+        options.onValueChunk(field, JSON.stringify(value), true);
       }
     } catch (error) {
-      // Value not yet complete or invalid
+      // Value invalid
       if (options.recover && this.recoveryAttempts < this.maxRecoveryAttempts) {
-        this.attemptRecovery(key, valueStr, error as Error);
+        this.attemptRecovery(field, valueStr, start, error as Error);
       }
     }
-
-    this.resetFieldState();
   }
 
   // ============================================================================
   // Error Recovery (v0.4.0)
   // ============================================================================
 
-  private attemptRecovery(key: string, valueStr: string, _error: Error): void {
+  private attemptRecovery(key: string, valueStr: string, position: number, _error: Error): void {
     this.recoveryAttempts++;
 
     const recoveryInfo: RecoveryInfo = {
       strategy: 'repair',
-      position: this.state.valueStart,
+      position,
       description: `Attempting to recover field: ${key}`,
       success: false,
     };
@@ -506,27 +808,15 @@ export class IncrementalLoot<T = unknown> {
     }
   }
 
-  private resetFieldState(): void {
-    const { state } = this;
-    state.currentKey = '';
-    state.keyStart = -1;
-    state.valueStart = -1;
-    state.valueDepth = 0;
-  }
-
   private finalizeResult(): void {
     const { options } = this;
 
     try {
-      let jsonStr = this.buffer;
-
-      // Find JSON boundaries
-      const start = jsonStr.indexOf('{');
-      const end = jsonStr.lastIndexOf('}');
-
-      if (start !== -1 && end !== -1 && end > start) {
-        jsonStr = jsonStr.slice(start, end + 1);
-      }
+      // Root value boundaries
+      let jsonStr = this.buffer.slice(
+        Math.max(0, this.jsonStartPosition),
+        this.jsonEndPosition === -1 ? undefined : this.jsonEndPosition
+      );
 
       // Repair if needed
       if (options.repair) {
@@ -536,9 +826,7 @@ export class IncrementalLoot<T = unknown> {
       this.result = JSON.parse(jsonStr) as T;
 
       // Invoke callback
-      if (options.onComplete) {
-        options.onComplete(this.result);
-      }
+      this.emitResult(this.result);
     } catch (error) {
       if (options.recover) {
         // Try partial result recovery
@@ -555,9 +843,7 @@ export class IncrementalLoot<T = unknown> {
             });
           }
 
-          if (options.onComplete) {
-            options.onComplete(this.result);
-          }
+          this.emitResult(this.result);
           return;
         }
       }
@@ -568,6 +854,19 @@ export class IncrementalLoot<T = unknown> {
     }
   }
 
+  private emitResult(result: T): void {
+    const { options } = this;
+
+    if (options.multiple) {
+      this.documents.push(result);
+      if (options.onDocument) {
+        options.onDocument(result, this.documents.length - 1);
+      }
+    } else if (options.onComplete) {
+      options.onComplete(result);
+    }
+  }
+
   private createResult(): IncrementalResult<T> {
     const self = this;
 
@@ -595,6 +894,81 @@ export class IncrementalLoot<T = unknown> {
       getBuffer(): string {
         return self.buffer;
       },
+
+      getSnapshot(): IncrementalSnapshot<T> {
+        return self.createSnapshot();
+      },
     };
   }
 }
+
+// ============================================================================
+// Path Helpers
+// ============================================================================
+
+/**
+ * Key or index of the child currently being read in a frame
+ */
+function childKey(frame: PathFrame): PathKey {
+  return frame.type === 'array' ? frame.index : frame.key ?? '';
+}
+
+// ============================================================================
+// String Decoding
+// ============================================================================
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Decode the raw content of a JSON string as far as it is complete
+ * Returns the decoded text and how many raw characters it covers
+ */
+function decodeStringFragment(raw: string): { text: string; consumed: number } {
+  let text = '';
+  let i = 0;
+  let lastUnitStart = 0;
+
+  while (i < raw.length) {
+    const unitStart = i;
+    const char = raw[i];
+
+    if (char !== '\\') {
+      text += char;
+      i++;
+      lastUnitStart = unitStart;
+      continue;
+    }
+
+    // Escape sequence: wait until it is complete
+    if (i + 1 >= raw.length) break;
+    const escape = raw[i + 1];
+
+    if (escape === 'u') {
+      if (i + 6 > raw.length) break;
+      const hex = raw.slice(i + 2, i + 6);
+      text += /^[0-9a-fA-F]{4}$/.test(hex) ? String.fromCharCode(parseInt(hex, 16)) : hex;
+      i += 6;
+    } else {
+      text += SIMPLE_ESCAPES[escape] ?? escape;
+      i += 2;
+    }
+    lastUnitStart = unitStart;
+  }
+
+  // Hold back a high surrogate until its low surrogate arrives
+  const last = text.charCodeAt(text.length - 1);
+  if (text.length > 0 && last >= 0xd800 && last <= 0xdbff) {
+    return { text: text.slice(0, -1), consumed: lastUnitStart };
+  }
+
+  return { text, consumed: i };
+}
@@ -0,0 +1,104 @@
+/**
+ * 💎 loot-json incremental events
+ * Shared plumbing for the async-iterable and stream adapters
+ */
+
+import { LootError } from '../types';
+import type { IncrementalLoot } from './IncrementalLoot';
+import type { IncrementalChunk, IncrementalEvent, IncrementalLootOptions } from './types';
+
+/**
+ * Queue that collects parser callbacks as typed events
+ */
+export interface EventQueue<T> {
+  /** Options with callbacks that also push events (user callbacks still run) */
+  options: IncrementalLootOptions;
+  /** Add an event manually */
+  push(event: IncrementalEvent<T>): void;
+  /** Take all queued events */
+  drain(): IncrementalEvent<T>[];
+  /** Queue an error if the stream ended before the JSON was complete */
+  finish(parser: IncrementalLoot<T>): void;
+}
+
+/**
+ * Wrap parser options so every callback is also recorded as an event
+ */
+export function createEventQueue<T>(options: IncrementalLootOptions = {}): EventQueue<T> {
+  let queue: IncrementalEvent<T>[] = [];
+  const push = (event: IncrementalEvent<T>): void => {
+    queue.push(event);
+  };
+
+  const wrapped: IncrementalLootOptions = {
+    ...options,
+    onFieldStart: (field) => {
+      options.onFieldStart?.(field);
+      push({ type: 'fieldStart', field });
+    },
+    onFieldComplete: (field, value) => {
+      options.onFieldComplete?.(field, value);
+      push({ type: 'fieldComplete', field, value });
+    },
+    onValueChunk: (field, chunk, complete) => {
+      options.onValueChunk?.(field, chunk, complete);
+      push({ type: 'valueChunk', field, chunk, complete });
+    },
+    onProgress: (progress) => {
+      options.onProgress?.(progress);
+      push({ type: 'progress', progress });
+    },
+    onDocument: (document, index) => {
+      options.onDocument?.(document, index);
+      push({ type: 'document', document: document as T, index });
+    },
+    onComplete: (result) => {
+      options.onComplete?.(result);
+      push({ type: 'complete', result: result as T });
+    },
+    onError: (error) => {
+      options.onError?.(error);
+      push({ type: 'error', error });
+    },
+  };
+
+  return {
+    options: wrapped,
+    push,
+    drain(): IncrementalEvent<T>[] {
+      const events = queue;
+      queue = [];
+      return events;
+    },
+    finish(parser: IncrementalLoot<T>): void {
+      if (!options.multiple && !parser.getStats().isComplete) {
+        push({
+          type: 'error',
+          error: new LootError('Stream ended before the JSON was complete', 'PARSE_FAILED'),
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Decode string or UTF-8 byte chunks without splitting multi-byte characters
+ */
+export class ChunkDecoder {
+  private decoder: InstanceType<typeof TextDecoder> | null = null;
+
+  decode(chunk: IncrementalChunk): string {
+    if (typeof chunk === 'string') {
+      return chunk;
+    }
+    this.decoder ??= new TextDecoder();
+    return this.decoder.decode(chunk, { stream: true });
+  }
+
+  /**
+   * Return any bytes still held by the decoder
+   */
+  flush(): string {
+    return this.decoder ? this.decoder.decode() : '';
+  }
+}
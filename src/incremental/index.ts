@@ -6,9 +6,17 @@
 export { IncrementalLoot } from './IncrementalLoot';
 export { FieldTracker } from './FieldTracker';
 export type {
+  EventReadableStream,
+  EventTransformStream,
+  EventWritableStream,
+  IncrementalChunk,
+  IncrementalEvent,
   IncrementalLootOptions,
   IncrementalResult,
+  IncrementalSnapshot,
   ParserState,
+  PathFrame,
+  PathKey,
   ProgressInfo,
   RecoveryInfo,
   RecoveryStrategy,
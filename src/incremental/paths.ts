@@ -0,0 +1,70 @@
+/**
+ * 💎 loot-json incremental paths
+ * Concrete value paths and lootField-style pattern matching
+ */
+
+import type { PathSegment } from '../lootField';
+import type { PathKey } from './types';
+
+/**
+ * Format a concrete path in lootField syntax, e.g. 'choices[1].text'
+ */
+export function formatPath(path: PathKey[]): string {
+  let result = '';
+
+  for (const key of path) {
+    if (typeof key === 'number') {
+      result += `[${key}]`;
+    } else if (key === '' || /[.[\]"']/.test(key)) {
+      result += `[${JSON.stringify(key)}]`;
+    } else {
+      result += result ? `.${key}` : key;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a concrete path matches a parsed lootField pattern
+ * Negative indices never match since the array length is not known while streaming
+ */
+export function matchPath(pattern: PathSegment[], path: PathKey[]): boolean {
+  return matchFrom(pattern, 0, path, 0);
+}
+
+function matchFrom(pattern: PathSegment[], pi: number, path: PathKey[], ki: number): boolean {
+  if (pi === pattern.length) {
+    return ki === path.length;
+  }
+
+  const segment = pattern[pi];
+
+  if (segment.type === 'recursive') {
+    // ** matches zero or more segments
+    for (let k = ki; k <= path.length; k++) {
+      if (matchFrom(pattern, pi + 1, path, k)) return true;
+    }
+    return false;
+  }
+
+  if (ki >= path.length) {
+    return false;
+  }
+
+  const key = path[ki];
+
+  switch (segment.type) {
+    case 'key':
+      if (String(key) !== segment.value) return false;
+      break;
+    case 'index':
+      if (key !== segment.value) return false;
+      break;
+    case 'wildcard':
+      if (typeof key !== 'number') return false;
+      break;
+  }
+
+  return matchFrom(pattern, pi + 1, path, ki + 1);
+}
@@ -17,18 +17,49 @@ export interface ParserState {
   inString: boolean;
   /** Whether the next character should be escaped */
   escapeNext: boolean;
-  /** Current key being parsed */
-  currentKey: string;
-  /** Start position of current key */
-  keyStart: number;
-  /** Start position of current value */
-  valueStart: number;
-  /** Whether JSON object has started */
+  /** Whether the root JSON object/array has started */
   jsonStarted: boolean;
+  /** Whether text other than whitespace came before the root value */
+  prose: boolean;
   /** Whether JSON parsing is complete */
   jsonComplete: boolean;
-  /** Current value nesting depth (for nested objects/arrays) */
-  valueDepth: number;
+  /** Open containers from the root to the innermost one */
+  frames: PathFrame[];
+  /** Whether the current string is an object key */
+  stringIsKey: boolean;
+  /** Start position of the current string */
+  stringStart: number;
+  /** Field whose string value is being streamed via onValueChunk */
+  streamField: string | null;
+  /** Buffer position up to which the streamed string has been emitted */
+  streamFrom: number;
+}
+
+/**
+ * Path segment of a concrete value location (object key or array index)
+ */
+export type PathKey = string | number;
+
+/**
+ * An open object/array on the parser's path stack
+ */
+export interface PathFrame {
+  /** Container type */
+  type: 'object' | 'array';
+  /** Location of this container (empty for the root) */
+  path: PathKey[];
+  /** Buffer position of the opening brace/bracket */
+  start: number;
+  /** Current key (objects only, null until read) */
+  key: string | null;
+  /** Current element index (arrays only) */
+  index: number;
+  /** Whether the current child value is still being read */
+  childOpen: boolean;
+  /** Whether the current child value is a primitive (number, boolean, null) */
+  childPrimitive: boolean;
+  /** Buffer position where the current child value starts */
+  childStart: number;
 }
 
 // ============================================================================
@@ -41,7 +72,8 @@ export interface ParserState {
 export interface IncrementalLootOptions {
   /**
    * Fields to track for early completion detection
-   * If not specified, tracks all top-level fields
+   * Accepts lootField paths: 'response.dialogue', 'actions[*].type', '**.id'
+   * If not specified, tracks all top-level fields (or elements of a top-level array)
    */
   fields?: string[];
 
@@ -63,8 +95,17 @@ export interface IncrementalLootOptions {
    */
   recover?: boolean;
 
+  /**
+   * Parse several root values from one stream (e.g. NDJSON-style tool calls)
+   * Each complete root value is passed to onDocument, then the parser resets
+   * for the next one (onComplete is not called in this mode)
+   * @default false
+   */
+  multiple?: boolean;
+
   /**
    * Callback when a tracked field is complete
+   * Nested fields are reported with their concrete path, e.g. 'actions[0].type'
    */
   onFieldComplete?: (field: string, value: unknown) => void;
 
@@ -75,6 +116,9 @@ export interface IncrementalLootOptions {
 
   /**
    * Callback for value chunks during streaming (for large strings)
+   * Tracked string values are emitted as decoded deltas while they grow
+   * (escapes resolved, surrogate pairs never split); the last call has complete = true.
+   * Other values are emitted once as JSON when complete.
    */
   onValueChunk?: (field: string, chunk: string, complete: boolean) => void;
 
@@ -88,6 +132,11 @@ export interface IncrementalLootOptions {
    */
   onComplete?: (result: unknown) => void;
 
+  /**
+   * Callback for each complete root value (multiple mode)
+   */
+  onDocument?: (document: unknown, index: number) => void;
+
   /**
    * Callback on parsing error
    */
@@ -140,6 +189,66 @@ export type RecoveryStrategy =
   | 'repair'          // Apply repair rules
   | 'partial_result'; // Return what we have
 
+// ============================================================================
+// Stream Events
+// ============================================================================
+
+/**
+ * Events emitted by the async-iterable and stream adapters
+ */
+export type IncrementalEvent<T = unknown> =
+  | { type: 'fieldStart'; field: string }
+  | { type: 'fieldComplete'; field: string; value: unknown }
+  | { type: 'valueChunk'; field: string; chunk: string; complete: boolean }
+  | { type: 'progress'; progress: ProgressInfo }
+  | { type: 'document'; document: T; index: number }
+  | { type: 'complete'; result: T }
+  | { type: 'error'; error: Error };
+
+/**
+ * Chunk types accepted by the stream adapters (bytes are decoded as UTF-8)
+ */
+export type IncrementalChunk = string | Uint8Array;
+
+// ============================================================================
+// Web Streams
+// ============================================================================
+
+/**
+ * The Web Streams `TransformStream` returned by IncrementalLoot.toTransformStream
+ *
+ * Only the members used to write chunks and read events are declared, so the types
+ * need neither the DOM lib nor @types/node. With either one, cast it to their
+ * `TransformStream` to pass it to `pipeThrough`.
+ */
+export interface EventTransformStream<I, O> {
+  readonly readable: EventReadableStream<O>;
+  readonly writable: EventWritableStream<I>;
+}
+
+/**
+ * The readable side of an EventTransformStream
+ */
+export interface EventReadableStream<R> {
+  readonly locked: boolean;
+  getReader(): {
+    read(): Promise<{ done: false; value: R } | { done: true; value: R | undefined }>;
+    releaseLock(): void;
+  };
+}
+
+/**
+ * The writable side of an EventTransformStream
+ */
+export interface EventWritableStream<W> {
+  readonly locked: boolean;
+  getWriter(): {
+    write(chunk: W): Promise<void>;
+    close(): Promise<void>;
+    releaseLock(): void;
+  };
+}
+
 // ============================================================================
 // Results
 // ============================================================================
@@ -178,4 +287,25 @@ export interface IncrementalResult<T> {
    * Get the current buffer content (for debugging)
    */
   getBuffer(): string;
+
+  /**
+   * Get a best-effort parse of everything seen so far
+   * Open strings are included and open arrays/objects are closed
+   */
+  getSnapshot(): IncrementalSnapshot<T>;
+}
+
+/**
+ * Best-effort view of a partially streamed JSON document
+ */
+export interface IncrementalSnapshot<T> {
+  /** Parsed value so far (null before the JSON starts or if it cannot be parsed yet) */
+  data: Partial<T> | null;
+  /** Whether the whole JSON document is complete */
+  complete: boolean;
+  /**
+   * Paths of values that are still growing (open containers, strings and numbers),
+   * outermost first, e.g. ['choices', 'choices[1]', 'choices[1].text']
+   */
+  pending: string[];
 }
@@ -13,20 +13,78 @@
 
 export { loot } from './loot';
 export { lootField } from './lootField';
+export { lootToolCalls } from './lootToolCalls';
+export { lootCandidates } from './lootCandidates';
+export { lootDocument, LootDocument } from './lootDocument';
 
 // ============================================================================
 // Incremental Parsing
 // ============================================================================
 
 export { IncrementalLoot } from './incremental';
-export type { IncrementalLootOptions, IncrementalResult } from './incremental';
+export type {
+  EventReadableStream,
+  EventTransformStream,
+  EventWritableStream,
+  IncrementalChunk,
+  IncrementalEvent,
+  IncrementalLootOptions,
+  IncrementalResult,
+  IncrementalSnapshot,
+} from './incremental';
+
+// ============================================================================
+// Provider Streams
+// ============================================================================
+
+export {
+  ProviderStreamDecoder,
+  decodeProviderStream,
+  extractProviderDelta,
+  SSEParser,
+} from './providers';
+export type {
+  ProviderDelta,
+  ProviderStreamOptions,
+  SSEEvent,
+  StreamContent,
+  StreamProvider,
+} from './providers';
 
 // ============================================================================
 // Schema Validation
 // ============================================================================
 
 export { validate, SchemaValidator } from './schema';
-export type { LootSchema, ValidationResult, ValidationError } from './schema';
+export type {
+  LootSchema,
+  ValidationResult,
+  ValidationError,
+  ValidationOptions,
+  CoercionLog,
+  CoercionType,
+} from './schema';
+
+// ============================================================================
+// Concrete Syntax Tree
+// ============================================================================
+
+export { parseCst, printCst } from './cst';
+export type {
+  CstArray,
+  CstChild,
+  CstDocument,
+  CstItem,
+  CstMember,
+  CstNode,
+  CstObject,
+  CstParseOptions,
+  CstScalar,
+  CstStray,
+  CstToken,
+  CstTokenKind,
+  CstValue,
+} from './cst';
 
 // ============================================================================
 // Types
@@ -35,12 +93,32 @@ export type { LootSchema, ValidationResult, ValidationError } from './schema';
 export type {
   LootOptions,
   LootFieldOptions,
+  LootToolCallsOptions,
+  LootCandidatesOptions,
+  LootDocumentOptions,
+  LootCandidate,
+  ScoreReason,
+  ScoreSignal,
+  CandidateSource,
   LootResultWithRepairs,
+  LootResultWithSourceMap,
+  SourceMap,
+  SourceSpan,
+  SourcePosition,
+  LootedToolCall,
+  LootedToolCallOf,
   RepairLog,
   RepairType,
   RepairResult,
   RepairOptions,
+  RepairDiffOptions,
   RepairRules,
+  RepairPreset,
+  CustomRepairRule,
+  RepairRuleContext,
+  RepairRuleResult,
+  ExtractionOptions,
+  ExtractionStrategy,
   LootErrorCode,
   // Convenience aliases (shorter names)
   Looted,
@@ -48,7 +126,7 @@ export type {
   LootFieldOpts,
 } from './types';
 
-export { DEFAULT_REPAIR_RULES } from './types';
+export { DEFAULT_REPAIR_RULES, REPAIR_PRESETS, DEFAULT_EXTRACTION_STRATEGIES } from './types';
 
 export { LootError, isLootError } from './types';
 
@@ -57,4 +135,15 @@ export { LootError, isLootError } from './types';
 // ============================================================================
 
 export { repairJson, StreamingRepair } from './repairs';
-export { findJsonCandidates, extractFromMarkdown, extractByBraces } from './extractors';
+export {
+  findJsonCandidates,
+  extractFromMarkdown,
+  extractByBraces,
+  extractTruncatedTail,
+  extractFromXmlTags,
+  extractByDelimiters,
+  scanBalancedRegions,
+} from './extractors';
+export type { BalancedRegion, BalancedScan } from './extractors';
+export { buildSourceMap, findSourceSpan } from './sourceMap';
+export { formatRepairDiff } from './repairDiff';
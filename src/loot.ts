@@ -3,14 +3,43 @@
  * Extract and parse JSON from messy LLM output
  */
 
-import { findJsonCandidates } from './extractors';
+import { CandidateRegion, findCandidateRegions } from './extractors';
+import { rankCandidates } from './lootCandidates';
 import { repairJson } from './repairs';
-import { LootError, LootOptions, LootResultWithRepairs, RepairLog } from './types';
+import { validate } from './schema';
+import { buildSourceMap } from './sourceMap';
+import {
+  LootError,
+  LootOptions,
+  LootResultWithRepairs,
+  LootResultWithSourceMap,
+  RepairLog,
+  RepairPreset,
+  SourceMap,
+} from './types';
 
 // ============================================================================
 // Type Overloads
 // ============================================================================
 
+// Source map overloads
+export function loot<T = unknown>(
+  text: string,
+  options: LootOptions & { sourceMap: true; all?: false; silent?: false }
+): LootResultWithSourceMap<T>;
+export function loot<T = unknown>(
+  text: string,
+  options: LootOptions & { sourceMap: true; all: true; silent?: false }
+): LootResultWithSourceMap<T[]>;
+export function loot<T = unknown>(
+  text: string,
+  options: LootOptions & { sourceMap: true; silent: true; all?: false }
+): LootResultWithSourceMap<T> | null;
+export function loot<T = unknown>(
+  text: string,
+  options: LootOptions & { sourceMap: true; silent: true; all: true }
+): LootResultWithSourceMap<T[]> | null;
+
 // Basic overloads
 export function loot<T = unknown>(text: string, options?: LootOptions & { all?: false }): T;
 export function loot<T = unknown>(text: string, options: LootOptions & { all: true }): T[];
@@ -53,7 +82,7 @@ export function loot<T = unknown>(
  * @param text - The raw text containing JSON (possibly mixed with markdown, comments, etc.)
  * @param options - Configuration options
  * @returns Parsed JSON object/array, or result with repairs if reportRepairs is true
- * @throws LootError if no valid JSON is found and silent mode is off
+ * @throws LootError if no valid JSON is found (or none matches `schema`) and silent mode is off
  *
  * @example
  * ```ts
@@ -68,64 +97,107 @@ export function loot<T = unknown>(
  *
  * // Extract all JSON objects
  * const items = loot(text, { all: true });
+ *
+ * // Pick the candidate matching a schema (skips example objects)
+ * const answer = loot<Answer>(text, { schema: answerSchema });
+ *
+ * // Map values back to the input (e.g. to highlight validation errors)
+ * const { result, sourceMap } = loot(text, { sourceMap: true });
+ * sourceMap['/damage']; // { start: { offset, line, column }, end: {...}, key: {...} }
  * ```
  */
 export function loot<T = unknown>(
   text: string,
   options: LootOptions = {}
-): T | T[] | null | LootResultWithRepairs<T> | LootResultWithRepairs<T[]> {
-  const { silent = false, repair = true, all = false, reportRepairs = false } = options;
+): T | T[] | null | LootResultWithRepairs<T> | LootResultWithRepairs<T[]> | LootResultWithSourceMap<T> {
+  const {
+    silent = false,
+    repair = true,
+    all = false,
+    reportRepairs = false,
+    schema,
+    sourceMap = false,
+  } = options;
 
   // Input validation
   if (!text || typeof text !== 'string') {
     if (silent) {
+      if (sourceMap) {
+        return { result: (all ? [] : null) as T, repairs: [], sourceMap: {} };
+      }
       return reportRepairs ? { result: (all ? [] : null) as T, repairs: [] } : all ? [] : null;
     }
     throw new LootError('Input must be a non-empty string', 'EMPTY_INPUT');
   }
 
-  const candidates = findJsonCandidates(text);
+  // Single result: take the top-ranked candidate (see lootCandidates)
+  if (!all) {
+    const ranked = rankCandidates<T>(text, findCandidateRegions(text, options), { repair, schema });
+    const best = ranked.find((candidate) => candidate.parsed && !candidate.validationErrors);
+
+    if (best) {
+      const value = best.value as T;
+      if (sourceMap) {
+        const map = best.start === -1 ? {} : buildSourceMap(text, best.start, best.end, value);
+        return { result: value, repairs: best.repairs, sourceMap: map };
+      }
+      return reportRepairs ? { result: value, repairs: best.repairs } : value;
+    }
+    if (silent) {
+      return null;
+    }
+
+    // Candidates parsed, but none matched the schema
+    const validationErrors = ranked.flatMap((candidate) => candidate.validationErrors ?? []);
+    if (validationErrors.length > 0) {
+      throw new LootError(
+        'No JSON candidate matched the provided schema',
+        'VALIDATION_FAILED',
+        validationErrors
+      );
+    }
+
+    throw new LootError('No valid JSON found in the provided text', 'NO_JSON_FOUND');
+  }
+
+  const regions = uniqueRegions(findCandidateRegions(text, options));
+  const trackRepairs = reportRepairs || sourceMap;
   const results: T[] = [];
   const allRepairs: RepairLog[] = [];
+  const sourceMaps: SourceMap = {};
 
-  for (const candidate of candidates) {
-    const parseResult = tryParse<T>(candidate, repair, reportRepairs);
+  for (const region of regions) {
+    const parseResult = tryParse<T>(region.text, repair, trackRepairs);
 
     if (parseResult !== undefined) {
-      if (reportRepairs) {
-        const { result: parsed, repairs } = parseResult as { result: T; repairs: RepairLog[] };
-        allRepairs.push(...repairs);
+      const value = trackRepairs ? (parseResult as { result: T }).result : (parseResult as T);
 
-        if (!all) {
-          return { result: parsed, repairs: allRepairs };
-        }
-        results.push(parsed);
-      } else {
-        if (!all) {
-          return parseResult as T;
+      // Skip candidates that do not match the schema
+      if (schema) {
+        const validation = validate(value, schema);
+        if (!validation.valid) {
+          continue;
         }
-        results.push(parseResult as T);
       }
-    }
-  }
 
-  // Handle 'all' mode
-  if (all) {
-    if (reportRepairs) {
-      return { result: results, repairs: allRepairs };
+      if (trackRepairs) {
+        allRepairs.push(...(parseResult as { repairs: RepairLog[] }).repairs);
+      }
+      if (sourceMap && region.start !== -1) {
+        const prefix = `/${results.length}`;
+        Object.assign(sourceMaps, buildSourceMap(text, region.start, region.end, value, prefix));
+      }
+      results.push(value);
     }
-    return results;
   }
 
-  // No valid JSON found
-  if (silent) {
-    if (reportRepairs) {
-      return null;
-    }
-    return null;
+  if (sourceMap) {
+    return { result: results as unknown as T, repairs: allRepairs, sourceMap: sourceMaps };
   }
-
-  throw new LootError('No valid JSON found in the provided text', 'NO_JSON_FOUND');
+  if (reportRepairs) {
+    return { result: results, repairs: allRepairs };
+  }
+  return results;
 }
 
 // ============================================================================
@@ -137,7 +209,7 @@ export function loot<T = unknown>(
  */
 function tryParse<T>(
   jsonString: string,
-  shouldRepair: boolean,
+  shouldRepair: boolean | RepairPreset,
   trackRepairs: boolean
 ): T | { result: T; repairs: RepairLog[] } | undefined {
   const repairs: RepairLog[] = [];
@@ -157,17 +229,32 @@ function tryParse<T>(
   }
 
   // Try with repairs
+  const preset = shouldRepair === true ? undefined : shouldRepair;
   try {
     if (trackRepairs) {
-      const repairResult = repairJson(jsonString, true);
+      const repairResult = repairJson(jsonString, { trackRepairs: true, preset });
       repairs.push(...repairResult.repairs);
       const parsed = JSON.parse(repairResult.text) as T;
       return { result: parsed, repairs };
     } else {
-      const repaired = repairJson(jsonString);
+      const repaired = repairJson(jsonString, { preset });
       return JSON.parse(repaired) as T;
     }
   } catch {
     return undefined;
   }
 }
+
+/**
+ * Drop repeated candidate texts, keeping the first location
+ */
+function uniqueRegions(regions: CandidateRegion[]): CandidateRegion[] {
+  const seen = new Set<string>();
+  return regions.filter((region) => {
+    if (seen.has(region.text)) {
+      return false;
+    }
+    seen.add(region.text);
+    return true;
+  });
+}
@@ -0,0 +1,278 @@
+/**
+ * 💎 loot-json candidate ranking
+ * Score every JSON candidate instead of taking the first that parses
+ */
+
+import { CandidateRegion, findCandidateRegions } from './extractors';
+import { repairJson } from './repairs';
+import { validate } from './schema';
+import {
+  CandidateSource,
+  LootCandidate,
+  LootCandidatesOptions,
+  RepairLog,
+  RepairPreset,
+  ScoreSignal,
+} from './types';
+
+// ============================================================================
+// Scoring Configuration
+// ============================================================================
+
+const SCORES = {
+  // Per configured strategy ranked below the one that found the candidate
+  strategy: 20,
+  outermost: 10,
+  nested: -30,
+  sizeMax: 15,
+  repairEach: -5,
+  repairMax: -30,
+  truncated: -10,
+  finalMarker: 25,
+  exampleMarker: -25,
+  schemaMatch: 100,
+  schemaMismatch: -100,
+  parseFailed: -1000,
+};
+
+// How far back to look for "final answer" / "example" markers
+const MARKER_WINDOW = 160;
+
+const FINAL_MARKER_REGEX =
+  /\b(?:final\s+(?:answer|output|result|json)|here\s+is\s+the\s+(?:final\s+)?(?:answer|result|output|json))\b/i;
+
+const EXAMPLE_MARKER_REGEX = /\b(?:example|e\.g\.|for instance|sample|template)\b/i;
+
+interface ParsedCandidate<T> {
+  value: T | undefined;
+  parsed: boolean;
+  repairs: RepairLog[];
+}
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+/**
+ * Find and rank all JSON candidates in text
+ *
+ * Each candidate is scored by signals such as the priority of the strategy that found it
+ * (delimiters and tags, then fenced blocks, by default), being the outermost value, the
+ * number of repairs needed, a schema match and "final answer" / "example" markers before it.
+ * `loot()` returns the top-ranked candidate.
+ *
+ * @param text - Raw text containing JSON
+ * @param options - Extraction, repair and schema options
+ * @returns Candidates sorted by score (highest first), with the reasons for each score
+ *
+ * @example
+ * ```ts
+ * const [best, ...rest] = lootCandidates(llmOutput);
+ * console.log(best.value, best.score);
+ * console.table(best.reasons);
+ * ```
+ */
+export function lootCandidates<T = unknown>(
+  text: string,
+  options: LootCandidatesOptions = {}
+): LootCandidate<T>[] {
+  if (!text || typeof text !== 'string') {
+    return [];
+  }
+  return rankCandidates<T>(text, findCandidateRegions(text, options), options);
+}
+
+/**
+ * Score and sort candidate regions (ties keep extraction order)
+ */
+export function rankCandidates<T>(
+  text: string,
+  regions: CandidateRegion[],
+  options: LootCandidatesOptions = {}
+): LootCandidate<T>[] {
+  const { repair = true, schema } = options;
+  const merged = mergeRegions(regions);
+  const nestedRegions = findNested(merged.map(({ region }) => region));
+  const results = parseCandidates<T>(merged.map(({ region }) => region), repair);
+
+  const candidates = merged.map(({ region, sources }) => {
+    const { value, parsed, repairs } = results.get(region) as ParsedCandidate<T>;
+    const candidate: LootCandidate<T> = {
+      text: region.text,
+      value,
+      parsed,
+      score: 0,
+      reasons: [],
+      repairs,
+      sources,
+      start: region.start,
+      end: region.end,
+    };
+
+    const add = (signal: ScoreSignal, score: number, description: string): void => {
+      candidate.reasons.push({ signal, score, description });
+      candidate.score += score;
+    };
+
+    if (!parsed) {
+      add('parse_failed', SCORES.parseFailed, 'Could not be parsed');
+      return candidate;
+    }
+
+    // Regions come in strategy order: the first source has the highest priority
+    const priority = region.priority ?? 0;
+    if (priority > 0) {
+      add('strategy', priority * SCORES.strategy, `Found by the ${sources[0]} strategy`);
+    }
+
+    const nested = nestedRegions.has(region);
+    if (nested) {
+      add('nested', SCORES.nested, 'Nested inside another candidate');
+    } else {
+      add('outermost', SCORES.outermost, 'Outermost value');
+    }
+
+    const size = Math.min(SCORES.sizeMax, Math.round(Math.log2(region.text.length)));
+    add('size', size, `${region.text.length} characters`);
+
+    if (repairs.length > 0) {
+      const penalty = Math.max(SCORES.repairMax, repairs.length * SCORES.repairEach);
+      add('repairs', penalty, `Needed ${repairs.length} repair(s)`);
+    }
+
+    if (region.truncated) {
+      add('truncated', SCORES.truncated, 'Truncated value completed by repair');
+    }
+
+    if (!nested && region.start > 0) {
+      const before = precedingText(text, region.start);
+      if (FINAL_MARKER_REGEX.test(before)) {
+        add('final_marker', SCORES.finalMarker, 'Preceded by a "final answer" marker');
+      } else if (EXAMPLE_MARKER_REGEX.test(before)) {
+        add('example_marker', SCORES.exampleMarker, 'Preceded by an "example" marker');
+      }
+    }
+
+    if (schema) {
+      const validation = validate(value, schema);
+      if (validation.valid) {
+        add('schema_match', SCORES.schemaMatch, 'Matches the schema');
+      } else {
+        candidate.validationErrors = validation.errors;
+        add('schema_mismatch', SCORES.schemaMismatch, `${validation.errors.length} schema error(s)`);
+      }
+    }
+
+    return candidate;
+  });
+
+  // Array.prototype.sort is stable, so ties keep extraction order
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Merge identical candidate texts, keeping the first location and all sources
+ */
+function mergeRegions(
+  regions: CandidateRegion[]
+): Array<{ region: CandidateRegion; sources: CandidateSource[] }> {
+  const byText = new Map<string, { region: CandidateRegion; sources: CandidateSource[] }>();
+
+  for (const region of regions) {
+    const existing = byText.get(region.text);
+    if (!existing) {
+      byText.set(region.text, { region, sources: [region.source] });
+    } else if (!existing.sources.includes(region.source)) {
+      existing.sources.push(region.source);
+    }
+  }
+
+  return [...byText.values()];
+}
+
+/**
+ * Find candidates strictly contained in another candidate (single sweep by start offset)
+ */
+function findNested(regions: CandidateRegion[]): Set<CandidateRegion> {
+  const nested = new Set<CandidateRegion>();
+  const located = regions
+    .filter((region) => region.start >= 0)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  let maxEnd = -1;
+  for (const region of located) {
+    if (region.end <= maxEnd) {
+      nested.add(region);
+    }
+    maxEnd = Math.max(maxEnd, region.end);
+  }
+
+  return nested;
+}
+
+/**
+ * Text just before a candidate, cut at the end of any preceding JSON value
+ */
+function precedingText(text: string, start: number): string {
+  const window = text.slice(Math.max(0, start - MARKER_WINDOW), start);
+  const cut = Math.max(window.lastIndexOf('}'), window.lastIndexOf(']'));
+  return window.slice(cut + 1);
+}
+
+/**
+ * Parse every candidate, outermost first
+ * A candidate inside one that parsed is not repaired: in a large document, each
+ * nested value would otherwise be repaired again
+ */
+function parseCandidates<T>(
+  regions: CandidateRegion[],
+  repair: boolean | RepairPreset
+): Map<CandidateRegion, ParsedCandidate<T>> {
+  const results = new Map<CandidateRegion, ParsedCandidate<T>>();
+  // Parsed candidates that may contain the next ones, outermost first
+  const parsedOuter: CandidateRegion[] = [];
+
+  for (const region of [...regions].sort((a, b) => a.start - b.start || b.end - a.end)) {
+    if (region.start < 0) {
+      results.set(region, parseCandidate<T>(region.text, repair));
+      continue;
+    }
+
+    while (parsedOuter.length > 0 && parsedOuter[parsedOuter.length - 1].end <= region.start) {
+      parsedOuter.pop();
+    }
+    const inParsed = parsedOuter.some((outer) => region.end <= outer.end);
+    const result = parseCandidate<T>(region.text, inParsed ? false : repair);
+    results.set(region, result);
+    if (result.parsed) {
+      parsedOuter.push(region);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Parse a candidate, repairing it if needed
+ */
+function parseCandidate<T>(text: string, repair: boolean | RepairPreset): ParsedCandidate<T> {
+  try {
+    return { value: JSON.parse(text) as T, parsed: true, repairs: [] };
+  } catch {
+    if (!repair) {
+      return { value: undefined, parsed: false, repairs: [] };
+    }
+  }
+
+  try {
+    const preset = repair === true ? undefined : repair;
+    const result = repairJson(text, { trackRepairs: true, preset });
+    return { value: JSON.parse(result.text) as T, parsed: true, repairs: result.repairs };
+  } catch {
+    return { value: undefined, parsed: false, repairs: [] };
+  }
+}
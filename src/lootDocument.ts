@@ -0,0 +1,414 @@
+/**
+ * 💎 loot-json editable documents
+ * Edit looted JSON by path and write it back with its comments and formatting
+ *
+ * Features:
+ * - lootField paths: 'user.name', 'items[0]', 'items[-1]', 'data["a.b"]'
+ * - Comments, whitespace and key order survive every edit
+ * - Written values follow the document's indentation
+ */
+
+import { lootCandidates } from './lootCandidates';
+import { parsePath, PathSegment } from './lootField';
+import { repairJson } from './repairs';
+import { entriesOf, isToken, parseCst, printCst } from './cst/parser';
+import {
+  CstArray,
+  CstChild,
+  CstDocument,
+  CstItem,
+  CstMember,
+  CstObject,
+  CstScalar,
+  CstToken,
+  CstValue,
+} from './cst/types';
+import { LootDocumentOptions, LootError } from './types';
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+/**
+ * Loot JSON from text as an editable document
+ *
+ * Text that is a single JSON value with comments (a JSONC file) is used whole,
+ * so comments before and after the value are kept; otherwise the best-ranked
+ * candidate (see lootCandidates) becomes the document.
+ *
+ * @example
+ * ```ts
+ * const doc = lootDocument('{\n  // retries before giving up\n  "retries": 3\n}');
+ *
+ * doc.set('retries', 5).set('backoff.base', 100);
+ * doc.toString();
+ * // '{\n  // retries before giving up\n  "retries": 5,\n  "backoff": {\n    "base": 100\n  }\n}'
+ * ```
+ */
+export function lootDocument(text: string, options: LootDocumentOptions = {}): LootDocument {
+  if (!text || typeof text !== 'string') {
+    throw new LootError('Input must be a non-empty string', 'EMPTY_INPUT');
+  }
+
+  const whole = parseCst(text);
+  if (whole.values.length === 1 && whole.children.every((child) => !isToken(child) || isTrivia(child))) {
+    return new LootDocument(text, options);
+  }
+
+  const best = lootCandidates(text, options).find((candidate) => candidate.parsed);
+  if (!best) {
+    throw new LootError('No valid JSON found in the provided text', 'NO_JSON_FOUND');
+  }
+  return new LootDocument(best.text, options);
+}
+
+// ============================================================================
+// Editable Document
+// ============================================================================
+
+/**
+ * A JSON value with its comments and formatting, edited by path
+ *
+ * Reads see the value as repaired JSON; writes only touch the edited entry,
+ * so the rest of the text is kept byte for byte.
+ */
+export class LootDocument {
+  private cst: CstDocument;
+  private root: CstValue;
+  private indent: string;
+
+  constructor(text: string, options: Pick<LootDocumentOptions, 'indent'> = {}) {
+    this.cst = parseCst(text);
+    const [root] = this.cst.values;
+    if (!root) {
+      throw new LootError('No valid JSON found in the provided text', 'NO_JSON_FOUND');
+    }
+    this.root = root;
+    this.indent = options.indent ?? /\n([ \t]+)\S/.exec(text)?.[1] ?? '  ';
+  }
+
+  /**
+   * Value at a path (the whole value for '')
+   */
+  get<T = unknown>(path: string): T | undefined {
+    const node = this.find(this.segments(path, true));
+    return node ? (readValue(node) as T) : undefined;
+  }
+
+  has(path: string): boolean {
+    return this.find(this.segments(path, true)) !== undefined;
+  }
+
+  /**
+   * Replace the value at a path, or add it
+   * Missing object keys along the path are created; an array grows by one
+   * when the index equals its length.
+   */
+  set(path: string, value: unknown): this {
+    const segments = this.segments(path);
+    let node: CstValue | undefined = this.root;
+
+    for (let depth = 0; depth < segments.length; depth++) {
+      const entry: CstMember | CstItem | undefined = findEntry(node, segments[depth]);
+
+      if (!entry?.value) {
+        const rest = segments.slice(depth + 1);
+        if (rest.some((segment) => segment.type !== 'key')) {
+          throw new LootError(`Cannot create '${path}': missing arrays are not created`, 'INVALID_PATH');
+        }
+        const nested = rest.reduceRight<unknown>(
+          (inner, segment) => (segment.type === 'key' ? { [segment.value]: inner } : inner),
+          value
+        );
+        this.insert(node, segments[depth], nested, depth, path);
+        return this;
+      }
+
+      if (depth === segments.length - 1) {
+        const replacement = parseValue(this.format(value, depth + 1, isMultiline(node as CstObject | CstArray)));
+        entry.children[entry.children.indexOf(entry.value)] = replacement;
+        entry.value = replacement;
+        return this;
+      }
+      node = entry.value;
+    }
+    return this;
+  }
+
+  /**
+   * Remove the entry at a path
+   * @returns Whether an entry was removed
+   */
+  delete(path: string): boolean {
+    const segments = this.segments(path);
+    const container = this.find(segments.slice(0, -1));
+    const entry = findEntry(container, segments[segments.length - 1]);
+    if (!entry) {
+      return false;
+    }
+
+    removeEntry(container as CstObject | CstArray, entry);
+    return true;
+  }
+
+  /**
+   * The whole value as repaired JSON
+   */
+  toJSON(): unknown {
+    return readValue(this.root);
+  }
+
+  /**
+   * The document text, comments and formatting included
+   */
+  toString(): string {
+    return printCst(this.cst);
+  }
+
+  // ==========================================================================
+  // Private Methods
+  // ==========================================================================
+
+  private segments(path: string, allowRoot: boolean = false): PathSegment[] {
+    const segments = parsePath(path);
+    if (segments.some((segment) => segment.type === 'wildcard' || segment.type === 'recursive')) {
+      throw new LootError(`Path '${path}' must not contain wildcards`, 'INVALID_PATH');
+    }
+    if (segments.length === 0 && !allowRoot) {
+      throw new LootError('Path is required', 'INVALID_PATH');
+    }
+    return segments;
+  }
+
+  private find(segments: PathSegment[]): CstValue | undefined {
+    let node: CstValue | undefined = this.root;
+    for (const segment of segments) {
+      node = findEntry(node, segment)?.value;
+    }
+    return node;
+  }
+
+  /**
+   * Add an entry to a container, after its last entry
+   */
+  private insert(
+    container: CstValue | undefined,
+    segment: PathSegment,
+    value: unknown,
+    depth: number,
+    path: string
+  ): void {
+    const multiline = container && container.type !== 'scalar' && isMultiline(container);
+    const text = this.format(value, depth + 1, multiline);
+    let entry: CstMember | CstItem;
+
+    if (segment.type === 'key' && container?.type === 'object') {
+      const object = parseValue(`{${JSON.stringify(segment.value)}: ${text}}`) as CstObject;
+      entry = object.members[0];
+      container.members.push(entry);
+    } else if (
+      segment.type === 'index' &&
+      container?.type === 'array' &&
+      segment.value === valuesOf(container).length
+    ) {
+      const array = parseValue(`[${text}]`) as CstArray;
+      entry = array.items[0];
+      container.items.push(entry);
+    } else {
+      throw new LootError(`Cannot set '${path}': no object or array to add it to`, 'INVALID_PATH');
+    }
+
+    const entries = entriesOf(container);
+    const previous = entries[entries.length - 2];
+    const { children } = container;
+
+    if (!previous) {
+      // First entry: on its own line in a multi-line container
+      const close = container.close ? children.indexOf(container.close) : children.length;
+      const before = children[close - 1];
+      const added: CstChild[] = multiline ? [token(`\n${this.indent.repeat(depth + 1)}`), entry] : [entry];
+      if (multiline && !(before && isToken(before) && before.kind === 'whitespace' && before.text.includes('\n'))) {
+        added.push(token(`\n${this.indent.repeat(depth)}`));
+      }
+      children.splice(before && isToken(before) && before.kind === 'whitespace' ? close - 1 : close, 0, ...added);
+      return;
+    }
+
+    // The previous entry gets a comma; whitespace ending it moves after the new entry
+    if (!previous.comma && previous.value) {
+      previous.comma = token(',', 'punctuation');
+      previous.children.splice(previous.children.indexOf(previous.value) + 1, 0, previous.comma);
+      const trailing = previous.children[previous.children.length - 1];
+      if (isToken(trailing) && trailing.kind === 'whitespace') {
+        previous.children.pop();
+        children.splice(children.indexOf(previous) + 1, 0, trailing);
+      }
+    }
+
+    // Separated like the previous entry, before the whitespace that ends the container
+    const at = children.indexOf(previous);
+    const before = children[at - 1];
+    let separator = before && isToken(before) && before.kind === 'whitespace' ? before.text : ' ';
+    // {"a": 1 // c\n}: an entry after a line comment starts a new line
+    if (!separator.includes('\n') && endsWithLineComment(previous)) {
+      separator = `\n${this.indent.repeat(depth + 1)}`;
+    }
+    let index = container.close ? children.indexOf(container.close) : children.length;
+    const last = children[index - 1];
+    if (index - 1 > at && isToken(last) && last.kind === 'whitespace') {
+      index--;
+    }
+    children.splice(index, 0, token(separator), entry);
+  }
+
+  /**
+   * JSON text for a value whose line is indented `depth` times
+   */
+  private format(value: unknown, depth: number, multiline: boolean | undefined): string {
+    return stringify(value, multiline ? this.indent : undefined, this.indent.repeat(depth));
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function findEntry(node: CstValue | undefined, segment: PathSegment): CstMember | CstItem | undefined {
+  if (segment.type === 'key' && node?.type === 'object') {
+    // The last duplicate key wins, as in JSON.parse
+    for (let i = node.members.length - 1; i >= 0; i--) {
+      const member = node.members[i];
+      if (member.key && member.value && keyOf(member.key) === segment.value) {
+        return member;
+      }
+    }
+  }
+  if (segment.type === 'index' && node?.type === 'array') {
+    const items = valuesOf(node);
+    return items[segment.value < 0 ? items.length + segment.value : segment.value];
+  }
+  return undefined;
+}
+
+/**
+ * Items with a value (empty slots in [1,,2] are skipped)
+ */
+function valuesOf(array: CstArray): CstItem[] {
+  return array.items.filter((item) => item.value);
+}
+
+function keyOf(key: CstScalar): string {
+  const value = readValue(key);
+  return typeof value === 'string' ? value : key.token.text;
+}
+
+function readValue(node: CstValue): unknown {
+  try {
+    return JSON.parse(repairJson(printCst(node)));
+  } catch {
+    return undefined;
+  }
+}
+
+function parseValue(text: string): CstValue {
+  return parseCst(text).values[0];
+}
+
+/**
+ * Remove an entry with the separator and comments on its line; the line break
+ * before the closer stays
+ */
+function removeEntry(container: CstObject | CstArray, entry: CstMember | CstItem): void {
+  const entries = entriesOf(container);
+  const { children } = container;
+  const at = children.indexOf(entry);
+  entries.splice(entries.indexOf(entry), 1);
+
+  const last = entries[entries.length - 1];
+  if (last && at < children.indexOf(last)) {
+    let end = at + 1;
+    while (end < children.length && isLineTrivia(children[end])) {
+      end++;
+    }
+    const next = children[end];
+    if (next && isToken(next) && next.kind === 'whitespace') {
+      end++;
+    }
+    children.splice(at, end - at);
+    return;
+  }
+
+  // The last entry: the new last entry loses its comma
+  if (last?.comma && !entry.comma) {
+    last.children.splice(last.children.indexOf(last.comma), 1);
+    last.comma = undefined;
+  }
+
+  const trailing = entry.children[entry.children.length - 1];
+  const kept = !entry.comma && isToken(trailing) && trailing.kind === 'whitespace' ? [trailing] : [];
+  const before = children[at - 1];
+  const start = before && isToken(before) && before.kind === 'whitespace' ? at - 1 : at;
+  children.splice(start, at + 1 - start, ...kept);
+}
+
+function isTrivia(token: CstToken): boolean {
+  return token.kind === 'whitespace' || token.kind === 'comment';
+}
+
+/**
+ * Spaces and comments before the end of a line
+ */
+function isLineTrivia(child: CstChild): boolean {
+  return isToken(child) && isTrivia(child) && !(child.kind === 'whitespace' && child.text.includes('\n'));
+}
+
+/**
+ * Whether an entry ends with a line comment, which would comment out text after it
+ */
+function endsWithLineComment(entry: CstMember | CstItem): boolean {
+  for (let i = entry.children.length - 1; i >= 0 && isLineTrivia(entry.children[i]); i--) {
+    const child = entry.children[i] as CstToken;
+    if (child.kind === 'comment' && child.text.startsWith('//')) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function isMultiline(container: CstObject | CstArray): boolean {
+  return printCst(container).includes('\n');
+}
+
+/**
+ * A token for inserted text (offsets are meaningless outside the input)
+ */
+function token(text: string, kind: CstToken['kind'] = 'whitespace'): CstToken {
+  return kind === 'punctuation' ? { kind, text, start: 0, end: 0, symbol: text } : { kind, text, start: 0, end: 0 };
+}
+
+/**
+ * Serialize a value like JSON.stringify, with `indent` per level (on one line without it)
+ * @param base - Indentation of the line the value starts on
+ */
+function stringify(value: unknown, indent: string | undefined, base: string): string {
+  const isArray = Array.isArray(value);
+  if (!isArray && (value === null || typeof value !== 'object' || 'toJSON' in value)) {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  const inner = base + (indent ?? '');
+  const entries = isArray
+    ? (value as unknown[]).map((item) => stringify(item, indent, inner))
+    : Object.entries(value as Record<string, unknown>)
+        .filter(([, item]) => item !== undefined && typeof item !== 'function')
+        .map(([key, item]) => `${JSON.stringify(key)}: ${stringify(item, indent, inner)}`);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+  if (entries.length === 0) {
+    return open + close;
+  }
+  if (indent === undefined) {
+    return `${open}${entries.join(', ')}${close}`;
+  }
+  return `${open}\n${inner}${entries.join(`,\n${inner}`)}\n${base}${close}`;
+}
@@ -16,7 +16,7 @@ import { LootError, LootFieldOptions } from './types';
 // Types
 // ============================================================================
 
-type PathSegment =
+export type PathSegment =
   | { type: 'key'; value: string }
   | { type: 'index'; value: number }
   | { type: 'wildcard' }
@@ -76,7 +76,7 @@ export function lootField<T = unknown>(
   const hasWildcard = segments.some((s) => s.type === 'wildcard' || s.type === 'recursive');
 
   // Find JSON candidates
-  const candidates = findJsonCandidates(text);
+  const candidates = findJsonCandidates(text, options);
   const results: T[] = [];
 
   // For wildcard patterns, only use the first (largest) JSON candidate to avoid duplicates
@@ -130,7 +130,7 @@ function throwNotFound(path: string): never {
  * Parse a field path into segments
  * Supports: 'a.b.c', 'a["b.c"].d', 'a[0]', 'a[-1]', 'a[*]', '**.id'
  */
-function parsePath(path: string): PathSegment[] {
+export function parsePath(path: string): PathSegment[] {
   const segments: PathSegment[] = [];
   let current = '';
   let inBracket = false;
@@ -0,0 +1,290 @@
+/**
+ * 💎 loot-json tool calls
+ * Extract tool / function calls and their (often malformed) arguments
+ */
+
+import { scanBalancedRegions } from './extractors';
+import { repairJson } from './repairs';
+import { validate } from './schema';
+import { LootedToolCall, LootedToolCallOf, LootToolCallsOptions, RepairLog } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A tool call before its arguments are decoded
+ */
+interface RawToolCall {
+  name: string;
+  args: unknown;
+  id?: string;
+  /** Repairs of the JSON text the call was found in */
+  repairs?: RepairLog[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+// Text-format tool call wrappers (Hermes, Qwen, etc.)
+const TOOL_CALL_TAG_REGEX = /<(tool_call|function_call)>([\s\S]*?)(?:<\/\1>|$)/gi;
+
+// Keys that carry arguments in generic `{ "name": ..., "<key>": ... }` calls
+const ARGUMENT_KEYS = ['arguments', 'parameters', 'input', 'args'];
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+/**
+ * Extract tool calls from LLM output
+ *
+ * Accepts raw text or a provider message object and recognises:
+ * - `<tool_call>{...}</tool_call>` / `<function_call>` blocks
+ * - `{"name": ..., "arguments": ...}` objects (also `parameters`, `input`, `args`) and arrays of them
+ * - OpenAI `tool_calls` / `function_call`, Anthropic `tool_use` blocks and Gemini `functionCall` parts
+ *
+ * Stringified `arguments` are decoded (twice if double-stringified) and repaired.
+ *
+ * @param input - Raw text or a message object
+ * @param options - Repair and per-tool schema options
+ * @returns Tool calls in order of appearance
+ *
+ * @example
+ * ```ts
+ * const calls = lootToolCalls<{ get_weather: { location: string } }>(message, {
+ *   schemas: { get_weather: weatherSchema },
+ * });
+ *
+ * for (const call of calls) {
+ *   if (call.name === 'get_weather' && call.errors.length === 0) {
+ *     getWeather(call.arguments.location);
+ *   }
+ * }
+ * ```
+ */
+export function lootToolCalls<Tools = Record<string, unknown>>(
+  input: string | object,
+  options: LootToolCallsOptions = {}
+): Array<LootedToolCallOf<Tools>> {
+  const { repair = true, schemas, coerce = false } = options;
+
+  const rawCalls = typeof input === 'string' ? fromText(input, repair) : fromMessage(input, repair);
+
+  return rawCalls.map((raw) => {
+    const repairs = [...(raw.repairs ?? [])];
+    const call: LootedToolCall = { name: raw.name, arguments: raw.args, repairs, errors: [] };
+    if (raw.id !== undefined) {
+      call.id = raw.id;
+    }
+
+    const decoded = decodeArguments(raw.args, repair, call.repairs);
+    if (decoded === undefined) {
+      call.errors.push({
+        path: '',
+        message: `Arguments for tool "${raw.name}" are not valid JSON`,
+        keyword: 'parse',
+        actual: raw.args,
+      });
+      return call as LootedToolCallOf<Tools>;
+    }
+    call.arguments = decoded;
+
+    const schema = schemas?.[raw.name];
+    if (schema) {
+      const result = validate(decoded, schema, { coerce });
+      call.errors.push(...result.errors);
+      // Invalid arguments are kept as decoded (coerced data is null)
+      if (coerce && result.valid) {
+        call.arguments = result.data;
+      }
+    }
+
+    return call as LootedToolCallOf<Tools>;
+  });
+}
+
+// ============================================================================
+// Finding Calls
+// ============================================================================
+
+/**
+ * Find tool calls in free text
+ * Tagged blocks win; otherwise every top-level JSON value is inspected
+ */
+function fromText(text: string, repair: boolean): RawToolCall[] {
+  const tagged: RawToolCall[] = [];
+  for (const match of text.matchAll(TOOL_CALL_TAG_REGEX)) {
+    tagged.push(...scanJson(match[2], repair));
+  }
+
+  return tagged.length > 0 ? tagged : scanJson(text, repair);
+}
+
+/**
+ * Parse the outermost JSON values in text and collect tool calls from them
+ * Values nested inside a recognised call are not inspected again
+ */
+function scanJson(text: string, repair: boolean): RawToolCall[] {
+  const calls: RawToolCall[] = [];
+  const { regions, truncatedStart } = scanBalancedRegions(text, { nested: true });
+
+  if (truncatedStart !== -1) {
+    regions.push({ start: truncatedStart, end: text.length, text: text.slice(truncatedStart) });
+    regions.sort((a, b) => a.start - b.start);
+  }
+
+  let consumedEnd = 0;
+  for (const region of regions) {
+    if (region.start < consumedEnd) {
+      continue;
+    }
+
+    const repairs: RepairLog[] = [];
+    const value = parseJson(region.text, repair, repairs);
+    const found = value === undefined ? [] : collectCalls(value);
+    if (found.length > 0) {
+      for (const call of found) {
+        call.repairs = repairs;
+      }
+      calls.push(...found);
+      consumedEnd = region.end;
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Find tool calls in a message object, falling back to its text content
+ */
+function fromMessage(message: object, repair: boolean): RawToolCall[] {
+  const calls = collectCalls(message);
+  if (calls.length > 0) {
+    return calls;
+  }
+
+  const { content } = message as JsonObject;
+  if (typeof content === 'string') {
+    return fromText(content, repair);
+  }
+  if (Array.isArray(content)) {
+    const text = content
+      .map((block) => (isObject(block) && typeof block.text === 'string' ? block.text : ''))
+      .join('\n');
+    return fromText(text, repair);
+  }
+
+  return [];
+}
+
+/**
+ * Normalize the tool call shapes used by the major providers
+ */
+function collectCalls(value: unknown): RawToolCall[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(collectCalls);
+  }
+  if (!isObject(value)) {
+    return [];
+  }
+
+  // Containers: OpenAI message, Anthropic message, Gemini content
+  if (Array.isArray(value.tool_calls)) {
+    return collectCalls(value.tool_calls);
+  }
+  if (isObject(value.function_call)) {
+    return collectCalls(value.function_call);
+  }
+  if (Array.isArray(value.content) && value.content.some(isToolUseBlock)) {
+    return collectCalls(value.content.filter(isToolUseBlock));
+  }
+  if (Array.isArray(value.parts)) {
+    return collectCalls(value.parts);
+  }
+
+  // OpenAI tool call: { id, type: 'function', function: { name, arguments } }
+  if (isObject(value.function) && typeof value.function.name === 'string') {
+    return [toRawCall(value.function.name, value.function.arguments, value.id)];
+  }
+
+  // Gemini part: { functionCall: { name, args } }
+  if (isObject(value.functionCall) && typeof value.functionCall.name === 'string') {
+    return [toRawCall(value.functionCall.name, value.functionCall.args, value.functionCall.id)];
+  }
+
+  // Anthropic block or generic { name, arguments } object
+  if (typeof value.name === 'string') {
+    const key = ARGUMENT_KEYS.find((k) => k in value);
+    if (key) {
+      return [toRawCall(value.name, value[key], value.id)];
+    }
+  }
+
+  return [];
+}
+
+function toRawCall(name: string, args: unknown, id: unknown): RawToolCall {
+  const call: RawToolCall = { name, args };
+  if (typeof id === 'string') {
+    call.id = id;
+  }
+  return call;
+}
+
+function isToolUseBlock(block: unknown): boolean {
+  return isObject(block) && block.type === 'tool_use';
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// Arguments
+// ============================================================================
+
+/**
+ * Decode arguments that may be stringified (once or twice) and malformed
+ * Returns undefined if a string could not be parsed
+ */
+function decodeArguments(args: unknown, repair: boolean, repairs: RepairLog[]): unknown {
+  if (typeof args !== 'string') {
+    return args ?? {};
+  }
+
+  // Some providers send "" for calls without arguments
+  if (args.trim() === '') {
+    return {};
+  }
+
+  const parsed = parseJson(args, repair, repairs);
+
+  // Double-stringified: "\"{\\\"a\\\": 1}\""
+  if (typeof parsed === 'string' && /^\s*[[{]/.test(parsed)) {
+    return parseJson(parsed, repair, repairs) ?? parsed;
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse JSON, repairing it if needed (repairs are appended to `repairs`)
+ */
+function parseJson(text: string, repair: boolean, repairs: RepairLog[]): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    if (!repair) {
+      return undefined;
+    }
+  }
+
+  try {
+    const result = repairJson(text, true);
+    const parsed: unknown = JSON.parse(result.text);
+    repairs.push(...result.repairs);
+    return parsed;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * 💎 loot-json/node
+ * Node.js stream adapters (kept out of the main entry so it has no `stream` import)
+ */
+
+import { Transform } from 'stream';
+import { IncrementalLoot } from './incremental/IncrementalLoot';
+import { ChunkDecoder, createEventQueue } from './incremental/events';
+import type { IncrementalLootOptions } from './incremental/types';
+
+export type { IncrementalEvent, IncrementalChunk, IncrementalLootOptions } from './incremental/types';
+
+/**
+ * Create a Node.js `Transform` that turns text or byte chunks into typed events
+ *
+ * The readable side is in object mode and emits `IncrementalEvent` objects.
+ *
+ * @example
+ * ```ts
+ * import { createIncrementalTransform } from 'loot-json/node';
+ *
+ * response.pipe(createIncrementalTransform({ fields: ['dialogue'] }))
+ *   .on('data', (event) => console.log(event.type));
+ * ```
+ */
+export function createIncrementalTransform<T = unknown>(
+  options: IncrementalLootOptions = {}
+): Transform {
+  const events = createEventQueue<T>(options);
+  const parser = new IncrementalLoot<T>(events.options);
+  const decoder = new ChunkDecoder();
+
+  const pushAll = (stream: Transform): void => {
+    for (const event of events.drain()) {
+      stream.push(event);
+    }
+  };
+
+  return new Transform({
+    decodeStrings: false,
+    readableObjectMode: true,
+    transform(chunk: string | Uint8Array, _encoding, callback) {
+      parser.addChunk(decoder.decode(chunk));
+      pushAll(this);
+      callback();
+    },
+    flush(callback) {
+      const rest = decoder.flush();
+      if (rest) {
+        parser.addChunk(rest);
+      }
+      events.finish(parser);
+      pushAll(this);
+      callback();
+    },
+  });
+}
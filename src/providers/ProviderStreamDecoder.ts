@@ -0,0 +1,117 @@
+/**
+ * 💎 loot-json ProviderStreamDecoder
+ * Feeds raw provider SSE streams into IncrementalLoot
+ */
+
+import { IncrementalLoot } from '../incremental/IncrementalLoot';
+import type { IncrementalChunk, IncrementalResult } from '../incremental/types';
+import { extractProviderDelta } from './deltas';
+import { SSEParser } from './SSEParser';
+import { ProviderStreamOptions, SSEEvent } from './types';
+
+/**
+ * Decodes a provider SSE stream and drives an `IncrementalLoot` parser
+ *
+ * @example
+ * ```ts
+ * const parser = new IncrementalLoot<ChatResponse>({ fields: ['dialogue'], onFieldComplete });
+ * const decoder = new ProviderStreamDecoder(parser, { provider: 'anthropic' });
+ *
+ * for await (const bytes of response.body!) {
+ *   decoder.write(bytes);
+ * }
+ * decoder.end();
+ * ```
+ */
+export class ProviderStreamDecoder<T = unknown> {
+  private sse = new SSEParser();
+  private parser: IncrementalLoot<T>;
+  private options: ProviderStreamOptions;
+  private done: boolean = false;
+
+  constructor(parser: IncrementalLoot<T>, options: ProviderStreamOptions) {
+    this.parser = parser;
+    this.options = { content: 'text', ...options };
+  }
+
+  /**
+   * Add raw SSE bytes or text
+   *
+   * @throws {LootError} with code 'PROVIDER_ERROR' when the stream reports an error
+   */
+  write(chunk: IncrementalChunk): IncrementalResult<T> {
+    return this.feed(this.sse.push(chunk));
+  }
+
+  /**
+   * Flush any buffered event at the end of the stream
+   */
+  end(): IncrementalResult<T> {
+    return this.feed(this.sse.end());
+  }
+
+  /**
+   * Whether the provider signalled the end of the stream
+   */
+  isDone(): boolean {
+    return this.done;
+  }
+
+  /**
+   * Get the parser being driven
+   */
+  getParser(): IncrementalLoot<T> {
+    return this.parser;
+  }
+
+  private feed(events: SSEEvent[]): IncrementalResult<T> {
+    let text = '';
+    try {
+      for (const event of events) {
+        this.options.onEvent?.(event);
+        const delta = extractProviderDelta(this.options.provider, event, this.options.content);
+        text += delta.text;
+        this.done ||= delta.done;
+      }
+    } catch (error) {
+      // The text of the events before an error event still reaches the parser
+      this.parser.addChunk(text);
+      throw error;
+    }
+    return this.parser.addChunk(text);
+  }
+}
+
+/**
+ * Turn a raw provider SSE stream into a stream of text deltas
+ *
+ * Useful with `IncrementalLoot.fromAsyncIterable`.
+ *
+ * @example
+ * ```ts
+ * const deltas = decodeProviderStream(response.body!, { provider: 'openai' });
+ * for await (const event of IncrementalLoot.fromAsyncIterable(deltas)) { ... }
+ * ```
+ */
+export async function* decodeProviderStream(
+  source: AsyncIterable<IncrementalChunk>,
+  options: ProviderStreamOptions
+): AsyncGenerator<string, void, undefined> {
+  const sse = new SSEParser();
+  const content = options.content ?? 'text';
+
+  const deltas = function* (events: SSEEvent[]): Generator<string> {
+    for (const event of events) {
+      options.onEvent?.(event);
+      const delta = extractProviderDelta(options.provider, event, content);
+      if (delta.text) {
+        yield delta.text;
+      }
+    }
+  };
+
+  for await (const chunk of source) {
+    yield* deltas(sse.push(chunk));
+  }
+  yield* deltas(sse.end());
+}
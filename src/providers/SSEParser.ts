@@ -0,0 +1,136 @@
+/**
+ * 💎 loot-json SSEParser
+ * Incremental server-sent events parser
+ */
+
+import { ChunkDecoder } from '../incremental/events';
+import type { IncrementalChunk } from '../incremental/types';
+import { SSEEvent } from './types';
+
+/**
+ * Parses a `text/event-stream` body chunk by chunk
+ *
+ * Lines and UTF-8 characters may be split anywhere across chunks.
+ *
+ * @example
+ * ```ts
+ * const sse = new SSEParser();
+ * for (const event of sse.push('data: {"a":1}\n\n')) {
+ *   console.log(event.data); // '{"a":1}'
+ * }
+ * ```
+ */
+export class SSEParser {
+  private decoder = new ChunkDecoder();
+  private buffer: string = '';
+  private data: string[] = [];
+  private event: string = '';
+  private id: string | undefined;
+
+  /**
+   * Add a chunk and return the events it completed
+   */
+  push(chunk: IncrementalChunk): SSEEvent[] {
+    this.buffer += this.decoder.decode(chunk);
+    return this.processLines(false);
+  }
+
+  /**
+   * Flush the remaining input and return any pending event
+   * (an unterminated final event is still dispatched)
+   */
+  end(): SSEEvent[] {
+    this.buffer += this.decoder.flush();
+    const events = this.processLines(true);
+    const last = this.dispatch();
+    if (last) {
+      events.push(last);
+    }
+    return events;
+  }
+
+  private processLines(final: boolean): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') {
+        continue;
+      }
+
+      // A trailing '\r' may be the first half of '\r\n'
+      if (char === '\r' && i === this.buffer.length - 1 && !final) {
+        break;
+      }
+
+      const line = this.buffer.slice(start, i);
+      if (char === '\r' && this.buffer[i + 1] === '\n') {
+        i++;
+      }
+      start = i + 1;
+
+      if (line === '') {
+        const event = this.dispatch();
+        if (event) {
+          events.push(event);
+        }
+      } else {
+        this.processField(line);
+      }
+    }
+
+    this.buffer = this.buffer.slice(start);
+    if (final && this.buffer) {
+      this.processField(this.buffer);
+      this.buffer = '';
+    }
+
+    return events;
+  }
+
+  private processField(line: string): void {
+    // Comment line (often used as keep-alive)
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'event':
+        this.event = value;
+        break;
+      case 'id':
+        this.id = value;
+        break;
+    }
+  }
+
+  private dispatch(): SSEEvent | null {
+    if (this.data.length === 0) {
+      this.event = '';
+      return null;
+    }
+
+    const event: SSEEvent = {
+      event: this.event || 'message',
+      data: this.data.join('\n'),
+    };
+    if (this.id !== undefined) {
+      event.id = this.id;
+    }
+
+    this.data = [];
+    this.event = '';
+    return event;
+  }
+}
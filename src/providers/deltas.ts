@@ -0,0 +1,185 @@
+/**
+ * 💎 loot-json provider deltas
+ * Pull text or tool-argument deltas out of provider SSE payloads
+ */
+
+import { LootError } from '../types';
+import { ProviderDelta, SSEEvent, StreamContent, StreamProvider } from './types';
+
+// Only the payload fields read here are typed
+interface ErrorPayload {
+  message?: string;
+}
+
+interface OpenAIPayload {
+  type?: string;
+  delta?: string;
+  message?: string;
+  error?: ErrorPayload;
+  response?: { error?: ErrorPayload };
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ function?: { arguments?: string } }>;
+      function_call?: { arguments?: string };
+    };
+  }>;
+}
+
+interface AnthropicPayload {
+  type?: string;
+  delta?: { type?: string; text?: string; partial_json?: string };
+  error?: ErrorPayload;
+}
+
+interface GeminiPayload {
+  error?: ErrorPayload;
+  candidates?: Array<{
+    finishReason?: string;
+    content?: {
+      parts?: Array<{ text?: string; thought?: boolean; functionCall?: { args?: unknown } }>;
+    };
+  }>;
+}
+
+const EMPTY: ProviderDelta = { text: '', done: false };
+
+/**
+ * Extract the delta carried by one SSE event
+ *
+ * Events without a relevant delta (pings, metadata, non-JSON data) yield empty text.
+ *
+ * @throws {LootError} with code 'PROVIDER_ERROR' when the stream reports an error
+ *
+ * @example
+ * ```ts
+ * extractProviderDelta('anthropic', {
+ *   event: 'content_block_delta',
+ *   data: '{"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}',
+ * });
+ * // { text: 'Hi', done: false }
+ * ```
+ */
+export function extractProviderDelta(
+  provider: StreamProvider,
+  event: SSEEvent,
+  content: StreamContent = 'text'
+): ProviderDelta {
+  if (provider === 'openai' && event.data.trim() === '[DONE]') {
+    return { text: '', done: true };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(event.data);
+  } catch {
+    return EMPTY;
+  }
+  if (!payload || typeof payload !== 'object') {
+    return EMPTY;
+  }
+
+  switch (provider) {
+    case 'openai':
+      return openaiDelta(payload as OpenAIPayload, content);
+    case 'anthropic':
+      return anthropicDelta(payload as AnthropicPayload, content);
+    case 'gemini':
+      return geminiDelta(payload as GeminiPayload, content);
+  }
+}
+
+// ============================================================================
+// Provider Formats
+// ============================================================================
+
+function openaiDelta(payload: OpenAIPayload, content: StreamContent): ProviderDelta {
+  if (payload.error || payload.type === 'error' || payload.type === 'response.failed') {
+    throw providerError('OpenAI', payload.error ?? payload.response?.error ?? payload);
+  }
+
+  // Responses API
+  if (typeof payload.type === 'string' && payload.type.startsWith('response.')) {
+    switch (payload.type) {
+      case 'response.output_text.delta':
+        return { text: content === 'text' ? payload.delta ?? '' : '', done: false };
+      case 'response.function_call_arguments.delta':
+        return { text: content === 'tool' ? payload.delta ?? '' : '', done: false };
+      case 'response.completed':
+      case 'response.incomplete':
+        return { text: '', done: true };
+      default:
+        return EMPTY;
+    }
+  }
+
+  // Chat Completions (only the first choice is followed)
+  const delta = payload.choices?.[0]?.delta;
+  if (!delta) {
+    return EMPTY;
+  }
+
+  if (content === 'text') {
+    return { text: typeof delta.content === 'string' ? delta.content : '', done: false };
+  }
+
+  let text = '';
+  if (Array.isArray(delta.tool_calls)) {
+    for (const call of delta.tool_calls) {
+      text += call?.function?.arguments ?? '';
+    }
+  } else if (delta.function_call) {
+    text = delta.function_call.arguments ?? '';
+  }
+  return { text, done: false };
+}
+
+function anthropicDelta(payload: AnthropicPayload, content: StreamContent): ProviderDelta {
+  switch (payload.type) {
+    case 'content_block_delta': {
+      const delta = payload.delta ?? {};
+
+      if (content === 'text' && delta.type === 'text_delta') {
+        return { text: delta.text ?? '', done: false };
+      }
+      if (content === 'tool' && delta.type === 'input_json_delta') {
+        return { text: delta.partial_json ?? '', done: false };
+      }
+      return EMPTY;
+    }
+    case 'message_stop':
+      return { text: '', done: true };
+    case 'error':
+      throw providerError('Anthropic', payload.error);
+    default:
+      return EMPTY;
+  }
+}
+
+function geminiDelta(payload: GeminiPayload, content: StreamContent): ProviderDelta {
+  if (payload.error) {
+    throw providerError('Gemini', payload.error);
+  }
+
+  const candidate = payload.candidates?.[0];
+  if (!candidate) {
+    return EMPTY;
+  }
+
+  let text = '';
+  for (const part of candidate.content?.parts ?? []) {
+    if (content === 'text' && typeof part.text === 'string' && !part.thought) {
+      text += part.text;
+    } else if (content === 'tool' && part.functionCall) {
+      // Gemini sends complete arguments objects rather than deltas
+      text += JSON.stringify(part.functionCall.args ?? {});
+    }
+  }
+
+  return { text, done: Boolean(candidate.finishReason) };
+}
+
+function providerError(provider: string, error: ErrorPayload | undefined): LootError {
+  const message = error?.message ?? 'unknown error';
+  return new LootError(`${provider} stream error: ${message}`, 'PROVIDER_ERROR');
+}
@@ -0,0 +1,15 @@
+/**
+ * 💎 loot-json providers module
+ * Decoders for OpenAI, Anthropic and Gemini server-sent event streams
+ */
+
+export { ProviderStreamDecoder, decodeProviderStream } from './ProviderStreamDecoder';
+export { SSEParser } from './SSEParser';
+export { extractProviderDelta } from './deltas';
+export type {
+  ProviderDelta,
+  ProviderStreamOptions,
+  SSEEvent,
+  StreamContent,
+  StreamProvider,
+} from './types';
@@ -0,0 +1,69 @@
+/**
+ * 💎 loot-json provider stream types
+ */
+
+// ============================================================================
+// Server-Sent Events
+// ============================================================================
+
+/**
+ * A dispatched server-sent event
+ */
+export interface SSEEvent {
+  /** Value of the `event:` field (defaults to 'message') */
+  event: string;
+  /** Joined `data:` lines */
+  data: string;
+  /** Value of the `id:` field, if any */
+  id?: string;
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Supported streaming formats
+ * - 'openai': Chat Completions (`choices[].delta`) and Responses API (`response.*.delta`) events
+ * - 'anthropic': Messages API (`content_block_delta`) events
+ * - 'gemini': `streamGenerateContent?alt=sse` (`candidates[].content.parts`) events
+ */
+export type StreamProvider = 'openai' | 'anthropic' | 'gemini';
+
+/**
+ * Which deltas to forward to the parser
+ * - 'text': assistant text (`delta.content`, `text_delta`, `parts[].text`)
+ * - 'tool': tool-call arguments (`tool_calls[].function.arguments`, `input_json_delta`, `functionCall.args`)
+ */
+export type StreamContent = 'text' | 'tool';
+
+/**
+ * Options for provider stream decoding
+ */
+export interface ProviderStreamOptions {
+  /** Format of the incoming SSE stream */
+  provider: StreamProvider;
+
+  /**
+   * Which deltas to forward
+   * Several tool calls in one stream are forwarded back to back,
+   * so combine 'tool' with `multiple: true` on the parser to get one document per call.
+   * @default 'text'
+   */
+  content?: StreamContent;
+
+  /**
+   * Called for every raw SSE event (before delta extraction)
+   */
+  onEvent?: (event: SSEEvent) => void;
+}
+
+/**
+ * Result of decoding one SSE event
+ */
+export interface ProviderDelta {
+  /** Extracted text to feed to the parser (may be empty) */
+  text: string;
+  /** Whether the event marks the end of the stream */
+  done: boolean;
+}
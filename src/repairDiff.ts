@@ -0,0 +1,84 @@
+/**
+ * 💎 loot-json repair diffs
+ * Render repair logs as a before/after report
+ */
+
+import { lineStarts, toPosition } from './cst/tokenizer';
+import { RepairDiffOptions, RepairLog } from './types';
+
+const ANSI = {
+  header: '\x1b[36m',
+  removed: '\x1b[31m',
+  added: '\x1b[32m',
+  reset: '\x1b[0m',
+};
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+/**
+ * Render repairs as a unified-diff-like report, one hunk per repair
+ *
+ * Each hunk shows the `original` and `replacement` snippets of the repair;
+ * repairs without snippets show the input line they apply to.
+ *
+ * @param repairs - Repair logs (`repairJson(text, true).repairs`)
+ * @param input - The text that was repaired
+ *
+ * @example
+ * ```ts
+ * const { repairs } = repairJson("{'a': 1,}", true);
+ *
+ * formatRepairDiff(repairs, "{'a': 1,}");
+ * // @@ 1:2 single_quote @@ Converted single-quoted string to double-quoted
+ * // -{'a': 1,}
+ * // +{"a": 1,}
+ * // @@ 1:8 trailing_comma @@ Removed trailing comma
+ * // -{'a': 1,}
+ * // +{'a': 1}
+ * ```
+ */
+export function formatRepairDiff(repairs: RepairLog[], input: string, options: RepairDiffOptions = {}): string {
+  const color = options.color ?? false;
+  const paint = (style: keyof typeof ANSI, text: string): string =>
+    color ? `${ANSI[style]}${text}${ANSI.reset}` : text;
+  const lines = lineStarts(input);
+  const hunks: string[] = [];
+
+  for (const repair of repairs) {
+    let { line, column } = repair;
+    if ((line === undefined || column === undefined) && repair.position !== undefined) {
+      ({ line, column } = toPosition(lines, repair.position));
+    }
+
+    const location = line !== undefined ? `${line}:${column ?? 1} ` : '';
+    const hunk = [paint('header', `@@ ${location}${repair.type} @@`) + ` ${repair.description}`];
+
+    if (repair.original !== undefined && repair.replacement !== undefined) {
+      hunk.push(...prefixLines('-', repair.original).map((text) => paint('removed', text)));
+      hunk.push(...prefixLines('+', repair.replacement).map((text) => paint('added', text)));
+    } else if (line !== undefined && line <= lines.length) {
+      hunk.push(` ${lineAt(input, lines, line)}`);
+    }
+    hunks.push(hunk.join('\n'));
+  }
+
+  return hunks.join('\n');
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function prefixLines(prefix: string, text: string): string[] {
+  return text.split(/\r\n|\r|\n/).map((line) => prefix + line);
+}
+
+/**
+ * Text of a line (1-based), without its line break
+ */
+function lineAt(input: string, lines: number[], line: number): string {
+  const end = line < lines.length ? lines[line] : input.length;
+  return input.slice(lines[line - 1], end).replace(/\r?\n$/, '');
+}
@@ -1,45 +1,65 @@
 /**
  * 💎 loot-json repairs (v0.2.0)
  * JSON repair utilities for common LLM output issues
- * 
+ *
  * Features:
- * - Single-pass state machine for optimal performance
+ * - Error-recovering CST parser; every repair is a transform of the tree (see ./cst)
  * - Configurable repair rules
- * - Enhanced repair logging with line/column info
+ * - Repair logs with positions in the original input and before/after snippets
+ * - Truncated output completion (max_tokens cut-offs)
+ * - JSON5 / JavaScript literals (hex, leading/trailing dots, backtick strings)
+ * - Smart quotes and full-width punctuation
  */
 
+import { CstParser, ParseFrame, entriesOf, isToken, printCst } from './cst/parser';
+import { Tokenizer, containsQuote, lineStarts, nextSignificant, toPosition } from './cst/tokenizer';
+import {
+  CstArray,
+  CstChild,
+  CstDocument,
+  CstItem,
+  CstMember,
+  CstNode,
+  CstObject,
+  CstScalar,
+  CstStray,
+  CstToken,
+  CstValue,
+} from './cst/types';
 import {
+  CustomRepairRule,
   RepairLog,
   RepairResult,
   RepairOptions,
   RepairRules,
+  SourcePosition,
   DEFAULT_REPAIR_RULES,
+  REPAIR_PRESETS,
 } from './types';
 
 // ============================================================================
-// State Machine Types
+// Repair Context
 // ============================================================================
 
-enum State {
-  Normal,
-  InString,
-  InStringEscape,
-  InSingleQuoteString,
-  InSingleQuoteStringEscape,
-  InSingleLineComment,
-  InMultiLineComment,
-  InMultiLineCommentStar,
-}
-
-interface RepairState {
-  state: State;
-  output: string[];
-  repairs: RepairLog[];
-  line: number;
-  column: number;
-  position: number;
+interface RepairContext {
+  input: string;
   rules: Required<RepairRules>;
+  customRules: CustomRepairRule[];
   trackRepairs: boolean;
+  repairs: RepairLog[];
+  /** Members that follow a value without a comma: their key may be any word, so it is not quoted */
+  unseparated: Set<CstMember | CstItem>;
+  /** Line start offsets, computed on first use */
+  lines?: number[];
+}
+
+/**
+ * Input text [start, end) rewritten by a repair
+ */
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
 }
 
 // ============================================================================
@@ -47,7 +67,7 @@ interface RepairState {
 // ============================================================================
 
 /**
- * Attempt to repair malformed JSON using single-pass state machine
+ * Attempt to repair malformed JSON
  * Handles common LLM mistakes like trailing commas, single quotes, comments, etc.
  *
  * @param jsonString - The malformed JSON string
@@ -66,6 +86,18 @@ interface RepairState {
  * const fixed = repairJson(input, {
  *   rules: { singleLineComments: false } // Keep comments
  * });
+ *
+ * // With a preset
+ * const fixed = repairJson(input, { preset: 'python-ish' });
+ *
+ * // With a plugin rule: "key" => value
+ * const fixed = repairJson(input, {
+ *   customRules: [{
+ *     name: 'fat_arrow',
+ *     onChar: (char, { input, position, inString }) =>
+ *       !inString && input.startsWith('=>', position) ? { replacement: ':', length: 2 } : null,
+ *   }],
+ * });
  * ```
  */
 export function repairJson(jsonString: string, trackRepairs?: false): string;
@@ -86,385 +118,809 @@ export function repairJson(
   }
 
   const trackRepairs = options.trackRepairs ?? false;
-  const rules: Required<RepairRules> = {
-    ...DEFAULT_REPAIR_RULES,
-    ...options.rules,
-  };
-
-  // Initialize state machine
-  const state: RepairState = {
-    state: State.Normal,
-    output: [],
-    repairs: [],
-    line: 1,
-    column: 1,
-    position: 0,
-    rules,
-    trackRepairs,
-  };
-
-  // Single-pass processing
-  for (let i = 0; i < jsonString.length; i++) {
-    const char = jsonString[i];
-    const nextChar = jsonString[i + 1];
-    const prevChar = i > 0 ? jsonString[i - 1] : '';
-
-    processChar(state, char, nextChar, prevChar, i);
+  const rules = resolveRules(options);
+  const { text, repairs } = repairText(jsonString, rules, options.customRules ?? [], trackRepairs);
 
-    // Update position tracking
-    if (char === '\n') {
-      state.line++;
-      state.column = 1;
-    } else {
-      state.column++;
-    }
-    state.position = i + 1;
+  if (trackRepairs) {
+    return { text, repairs };
   }
+  return text;
+}
 
-  // Post-processing: fix trailing commas and unquoted keys
-  let result = state.output.join('');
+/**
+ * Preset rules (all rules by default) with per-rule overrides
+ */
+function resolveRules(options: RepairOptions): Required<RepairRules> {
+  const base = options.preset ? REPAIR_PRESETS[options.preset] : DEFAULT_REPAIR_RULES;
+  return { ...(base ?? DEFAULT_REPAIR_RULES), ...options.rules };
+}
 
-  if (rules.trailingComma) {
-    result = fixTrailingCommas(result, state);
+/**
+ * Parse a text, repair the tree and print it
+ * @param context - Containers left open by the previous section (StreamingRepair)
+ */
+function repairText(
+  input: string,
+  rules: Required<RepairRules>,
+  customRules: CustomRepairRule[],
+  trackRepairs: boolean,
+  context: ParseFrame[] = []
+): RepairResult & { context: ParseFrame[] } {
+  const parser = new CstParser(input, { unescapedQuotes: rules.unescapedQuotes, customRules }, context);
+  const document = parser.parse();
+  const ctx: RepairContext = { input, rules, customRules, trackRepairs, repairs: [], unseparated: new Set() };
+
+  for (const { rule, result, position } of parser.substitutions) {
+    const edit = { start: position, end: position + (result.length ?? 1), text: result.replacement };
+    logRepair(ctx, rule.name, position, result.description ?? `Applied ${rule.name}`, edit);
   }
 
-  if (rules.unquotedKeys) {
-    result = fixUnquotedKeys(result, state);
-  }
+  repairNode(document, undefined, ctx);
 
-  if (rules.invalidValues) {
-    result = fixInvalidValues(result, state);
+  // Complete output that stops mid-stream
+  if (rules.closeTruncated) {
+    closeTruncated(document, ctx);
   }
 
-  if (trackRepairs) {
-    return { text: result, repairs: state.repairs };
-  }
-  return result;
+  // Containers are repaired before their contents: report in input order
+  ctx.repairs.sort((a, b) => (a.position as number) - (b.position as number));
+  return { text: printCst(document), repairs: ctx.repairs, context: parser.context() };
 }
 
 // ============================================================================
-// State Machine Character Processor
+// Tree Repairs
 // ============================================================================
 
-function processChar(
-  state: RepairState,
-  char: string,
-  nextChar: string | undefined,
-  _prevChar: string,
-  position: number
-): void {
-
-  switch (state.state) {
-    case State.Normal:
-      handleNormalState(state, char, nextChar, position);
+/**
+ * Repair a node and its descendants in place
+ * @returns Whether the node stays in the tree
+ */
+function repairNode(node: CstNode, parent: CstNode | undefined, ctx: RepairContext): boolean {
+  switch (node.type) {
+    case 'scalar':
+      repairScalar(node, parent?.type === 'member' && parent.key === node && !ctx.unseparated.has(parent), ctx);
+      return true;
+    case 'stray':
+      return !removeStray(node, parent, ctx);
+    case 'object':
+    case 'array':
+      repairContainer(node, ctx);
       break;
+  }
 
-    case State.InString:
-      handleStringState(state, char, position);
-      break;
+  // Compacted in place: a new array per node is most of the garbage on large inputs
+  const { children } = node;
+  let kept = 0;
+  for (const child of children) {
+    if (isToken(child) ? repairToken(child, ctx) : repairNode(child, node, ctx)) {
+      children[kept++] = child;
+    }
+  }
+  children.length = kept;
+  return true;
+}
 
-    case State.InStringEscape:
-      state.output.push(char);
-      state.state = State.InString;
-      break;
+/**
+ * Repair trivia and punctuation
+ * @returns Whether the token stays in the tree
+ */
+function repairToken(token: CstToken, ctx: RepairContext): boolean {
+  const { rules } = ctx;
 
-    case State.InSingleQuoteString:
-      handleSingleQuoteStringState(state, char, position);
-      break;
+  if (token.kind === 'comment') {
+    if (token.text.startsWith('/*')) {
+      if (!rules.multiLineComments) {
+        return true;
+      }
+      logRepair(ctx, 'multi_line_comment', token.start, 'Removed multi-line comment', replace(token, ''));
+      return false;
+    }
+    if (!rules.singleLineComments) {
+      return true;
+    }
+    logRepair(ctx, 'single_line_comment', token.start, 'Removed single-line comment', replace(token, ''));
+    return false;
+  }
 
-    case State.InSingleQuoteStringEscape:
-      state.output.push(char);
-      state.state = State.InSingleQuoteString;
-      break;
+  // Full-width punctuation and unusual spaces act as their ASCII equivalent
+  if ((token.kind === 'punctuation' || token.kind === 'whitespace') && rules.unicodePunctuation) {
+    token.text = normalizeUnicode(token, ctx);
+  }
+  return true;
+}
 
-    case State.InSingleLineComment:
-      if (char === '\n') {
-        state.state = State.Normal;
-        // Don't emit the newline from comment, but preserve line structure
-      }
-      // Skip all comment characters
-      break;
+/**
+ * Remove stray text inside containers and closers without an opener
+ * @returns Whether the node was removed
+ */
+function removeStray(node: CstStray, parent: CstNode | undefined, ctx: RepairContext): boolean {
+  const { token } = node;
 
-    case State.InMultiLineComment:
-      if (char === '*') {
-        state.state = State.InMultiLineCommentStar;
-      }
-      break;
+  if (token.kind === 'punctuation') {
+    if (!ctx.rules.unbalancedBrackets) {
+      return false;
+    }
+    logRepair(ctx, 'unbalanced_bracket', token.start, `Removed unmatched '${token.text}'`, replace(token, ''));
+    return true;
+  }
 
-    case State.InMultiLineCommentStar:
-      if (char === '/') {
-        state.state = State.Normal;
-      } else if (char !== '*') {
-        state.state = State.InMultiLineComment;
-      }
-      break;
+  // Text between root values is prose around the JSON: leave it
+  if (!ctx.rules.strayText || parent?.type === 'document') {
+    return false;
   }
+  logRepair(ctx, 'stray_text', token.start, `Removed stray text: ${token.text}`, replace(token, ''));
+  return true;
 }
 
-function handleNormalState(
-  state: RepairState,
-  char: string,
-  nextChar: string | undefined,
-  position: number
-): void {
-  const { rules } = state;
-
-  // Check for single-line comment
-  if (char === '/' && nextChar === '/' && rules.singleLineComments) {
-    if (state.trackRepairs) {
-      state.repairs.push({
-        type: 'single_line_comment',
-        position,
-        line: state.line,
-        column: state.column,
-        description: 'Removed single-line comment',
-        fixed: true,
-      });
+/**
+ * Fix the punctuation of an object or array: tuples, unbalanced closers,
+ * trailing commas, missing commas and colons
+ */
+function repairContainer(node: CstObject | CstArray, ctx: RepairContext): void {
+  const { rules } = ctx;
+  const entries = entriesOf(node);
+
+  // Python tuple: (1, 2) → [1, 2]
+  if (node.type === 'array' && node.tuple && rules.tuples) {
+    if (node.open) {
+      logRepair(ctx, 'tuple', node.open.start, 'Converted tuple to array', replace(node.open, '['));
+      node.open.text = '[';
     }
-    state.state = State.InSingleLineComment;
-    return;
+    if (node.close) {
+      node.close.text = ']';
+    }
+  }
+
+  // A closer of the wrong kind: {"a": [1, 2}, "b": 3} → {"a": [1, 2], "b": 3}
+  if (node.close && node.close.symbol !== closerOf(node) && rules.unbalancedBrackets) {
+    const { close } = node;
+    const text = closerText(node, ctx);
+    logRepair(ctx, 'unbalanced_bracket', close.start, `Replaced '${close.text}' with '${text}'`, replace(close, text));
+    close.text = text;
+  }
+
+  // An outer closer came first: {"a": [1, 2} → {"a": [1, 2]}
+  if (node.unclosed === 'mismatch' && rules.unbalancedBrackets) {
+    const at = endOf(node) as number;
+    const closer = closeContainer(node, at, ctx);
+    logRepair(ctx, 'unbalanced_bracket', at, `Inserted missing '${closer}'`, insert(at, closer));
+  }
+
+  const lastEntry = last(entries);
+  if (node.close && lastEntry?.comma && rules.trailingComma) {
+    logRepair(ctx, 'trailing_comma', lastEntry.comma.start, 'Removed trailing comma', replace(lastEntry.comma, ''));
+    removeChild(lastEntry, lastEntry.comma);
+    lastEntry.comma = undefined;
   }
 
-  // Check for multi-line comment
-  if (char === '/' && nextChar === '*' && rules.multiLineComments) {
-    if (state.trackRepairs) {
-      state.repairs.push({
-        type: 'multi_line_comment',
-        position,
-        line: state.line,
-        column: state.column,
-        description: 'Removed multi-line comment',
-        fixed: true,
-      });
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const previous = entries[i - 1];
+
+    // [1 2] → [1, 2]
+    const previousEnd = previous && !previous.comma && (previous.value ?? (previous as CstMember).key);
+    if (previousEnd && hasContent(entry)) {
+      if (rules.missingCommas) {
+        const at = endOf(previousEnd) as number;
+        logRepair(ctx, 'missing_comma', at, 'Inserted missing comma between values', insert(at, ','));
+        previous.comma = insertAfter(previous, previousEnd, ',');
+      } else {
+        ctx.unseparated.add(entry);
+      }
+    }
+
+    // {"a" 1} → {"a": 1}
+    if (entry.type === 'member' && entry.key && entry.value && !entry.colon && rules.missingColons) {
+      const at = entry.key.token.end;
+      logRepair(ctx, 'missing_colon', at, 'Inserted missing colon after key', insert(at, ':'));
+      entry.colon = insertAfter(entry, entry.key, ':');
     }
-    state.state = State.InMultiLineComment;
-    return;
   }
+}
 
-  // Check for double-quoted string start
-  if (char === '"') {
-    state.output.push(char);
-    state.state = State.InString;
-    return;
+/**
+ * The closer that matches a container's opener
+ */
+function closerOf(node: CstObject | CstArray): string {
+  return node.type === 'object' ? '}' : node.tuple ? ')' : ']';
+}
+
+/**
+ * A container's closer as written in the output (tuples become arrays)
+ */
+function closerText(node: CstObject | CstArray, ctx: RepairContext): string {
+  const symbol = closerOf(node);
+  return symbol === ')' && ctx.rules.tuples ? ']' : symbol;
+}
+
+/**
+ * Give a container its closer (a synthetic token at `at`)
+ * @returns The closer's text
+ */
+function closeContainer(node: CstObject | CstArray, at: number, ctx: RepairContext): string {
+  const text = closerText(node, ctx);
+  node.close = { kind: 'punctuation', text, symbol: closerOf(node), start: at, end: at };
+  node.children.push(node.close);
+  node.unclosed = undefined;
+  return text;
+}
+
+/**
+ * Insert a separator token right after a child of an entry
+ */
+function insertAfter(entry: CstMember | CstItem, after: CstChild, symbol: string): CstToken {
+  const at = endOf(after) as number;
+  const token: CstToken = { kind: 'punctuation', text: symbol, symbol, start: at, end: at };
+  entry.children.splice(entry.children.indexOf(after) + 1, 0, token);
+  return token;
+}
+
+// ============================================================================
+// Scalar Repairs
+// ============================================================================
+
+const IDENTIFIER_REGEX = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/;
+const INVALID_VALUES = ['undefined', 'NaN', 'Infinity', '-Infinity', '+Infinity'];
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+function repairScalar(node: CstScalar, isKey: boolean, ctx: RepairContext): void {
+  const { token } = node;
+  token.text = token.kind === 'string' ? repairString(token, ctx) : repairBare(token, isKey, ctx);
+}
+
+/**
+ * Repair an unquoted token: quote it as a key, replace it as an invalid value
+ * or Python literal, or normalize it as a number
+ */
+function repairBare(token: CstToken, isKey: boolean, ctx: RepairContext): string {
+  const { rules } = ctx;
+  const { text } = token;
+  const custom = applyCustomTokenRules(token, isKey, ctx);
+
+  if (custom !== undefined) {
+    return custom;
+  } else if (isKey && rules.unquotedKeys && IDENTIFIER_REGEX.test(text)) {
+    logRepair(ctx, 'unquoted_key', token.start, `Quoted unquoted key: ${text}`, replace(token, `"${text}"`));
+    return `"${text}"`;
+  } else if (!isKey && rules.invalidValues && INVALID_VALUES.includes(text)) {
+    logRepair(ctx, 'invalid_value', token.start, `Replaced ${text} with null`, replace(token, 'null'));
+    return 'null';
+  } else if (!isKey && rules.pythonLiterals && text in PYTHON_LITERALS) {
+    const literal = PYTHON_LITERALS[text];
+    logRepair(ctx, 'python_literal', token.start, `Converted Python ${text} to ${literal}`, replace(token, literal));
+    return literal;
+  } else if (!isKey) {
+    return normalizeNumber(token, ctx);
+  }
+  return text;
+}
+
+/**
+ * Run the onToken hooks of custom rules
+ * @returns The replacement of the first matching rule, if any
+ */
+function applyCustomTokenRules(token: CstToken, isKey: boolean, ctx: RepairContext): string | undefined {
+  if (ctx.customRules.length === 0) {
+    return undefined;
   }
 
-  // Check for single-quoted string start
-  if (char === "'" && rules.singleQuotes) {
-    if (state.trackRepairs) {
-      state.repairs.push({
-        type: 'single_quote',
-        position,
-        line: state.line,
-        column: state.column,
-        description: 'Converted single-quoted string to double-quoted',
-        fixed: true,
-      });
+  const { offset: position, line, column } = locate(ctx, token.start);
+  const context = { input: ctx.input, position, line, column, inString: false, isKey };
+
+  for (const rule of ctx.customRules) {
+    const result = rule.onToken?.(token.text, context);
+    if (result) {
+      const description = result.description ?? `Applied ${rule.name}`;
+      logRepair(ctx, rule.name, token.start, description, replace(token, result.replacement));
+      return result.replacement;
     }
-    state.output.push('"'); // Convert to double quote
-    state.state = State.InSingleQuoteString;
-    return;
+  }
+  return undefined;
+}
+
+/**
+ * Rewrite JSON5 / JavaScript number syntax: +3, 0x1F, .5, 5.
+ */
+function normalizeNumber(token: CstToken, ctx: RepairContext): string {
+  const { rules } = ctx;
+  let text = token.text;
+  // Input span of `text`: the token without its removed plus sign
+  let start = token.start;
+  const edit = (replacement: string): Edit => ({ start, end: token.end, text: replacement });
+
+  if (rules.plusSign && /^\+(?:\d|\.\d)/.test(text)) {
+    logRepair(ctx, 'plus_sign', token.start, `Removed plus sign from ${text}`, edit(text.slice(1)));
+    text = text.slice(1);
+    start = offsetOf(token, 1);
   }
 
-  // Default: emit character as-is
-  state.output.push(char);
+  if (rules.hexNumbers && /^-?0[xX][0-9a-fA-F]+$/.test(text)) {
+    const negative = text.startsWith('-');
+    const value = `${negative ? '-' : ''}${parseInt(text.slice(negative ? 3 : 2), 16)}`;
+    logRepair(ctx, 'hex_number', token.start, `Converted hex number ${text} to ${value}`, edit(value));
+    text = value;
+  }
+
+  if (rules.leadingDecimalPoint && /^-?\.\d/.test(text)) {
+    const fixed = text.replace('.', '0.');
+    logRepair(ctx, 'leading_decimal_point', token.start, `Added leading zero to ${text}`, edit(fixed));
+    text = fixed;
+  }
+
+  if (rules.trailingDecimalPoint && /^-?\d+\.(?:[eE]|$)/.test(text)) {
+    const fixed = text.replace('.', '');
+    logRepair(ctx, 'trailing_decimal_point', token.start, `Removed trailing decimal point from ${text}`, edit(fixed));
+    text = fixed;
+  }
+
+  return text;
 }
 
-function handleStringState(state: RepairState, char: string, position: number): void {
-  const { rules } = state;
+// ============================================================================
+// String Repairs
+// ============================================================================
 
-  if (char === '\\') {
-    state.output.push(char);
-    state.state = State.InStringEscape;
-    return;
+const BACKTICK_ESCAPES: Record<string, string> = { '"': '\\"', '\n': '\\n', '\r': '\\r', '\t': '\\t' };
+
+// Characters repairString may rewrite
+const STRING_SPECIALS = '\\"\n\r\t';
+
+// Escapes valid in JSON (after the backslash)
+const JSON_ESCAPES = '"\\/bfnrtu';
+
+// JSON5 escapes without a JSON equivalent
+const JSON5_ESCAPES: Record<string, string> = { v: 'u000b', '0': 'u0000' };
+
+const LINE_TERMINATORS = ['\n', '\r', '\u2028', '\u2029'];
+
+/**
+ * Rewrite a string token as a JSON string: double quotes, JSON escapes, no raw newlines
+ * A string whose quote style is not repaired is kept as written; an unterminated
+ * string stays unterminated (see closeTruncated).
+ */
+function repairString(token: CstToken, ctx: RepairContext): string {
+  const { rules } = ctx;
+  const { text } = token;
+  const quote = token.quote as string;
+  const ascii = UNICODE_PUNCTUATION[quote] ?? quote;
+
+  if (
+    (ascii !== quote && !rules.unicodePunctuation) ||
+    (ascii === "'" && !rules.singleQuotes) ||
+    (ascii === '`' && !rules.backtickStrings)
+  ) {
+    return text;
   }
 
-  if (char === '"') {
-    state.output.push(char);
-    state.state = State.Normal;
-    return;
+  if (ascii !== quote) {
+    logUnicode(ctx, quote, offsetOf(token, 0));
   }
 
-  // Handle unescaped newlines in strings
-  if ((char === '\n' || char === '\r') && rules.unescapedNewlines) {
-    if (state.trackRepairs) {
-      // Only log once per string
-      const lastRepair = state.repairs[state.repairs.length - 1];
-      if (!lastRepair || lastRepair.type !== 'unescaped_newline' || lastRepair.line !== state.line) {
-        state.repairs.push({
-          type: 'unescaped_newline',
-          position,
-          line: state.line,
-          column: state.column,
-          description: 'Escaped unescaped newline in string',
-          fixed: true,
-        });
+  const end = token.closed ? text.length - 1 : text.length;
+  let result = '"';
+  let newlineLine = 0;
+
+  for (let i = 1; i < end; i++) {
+    // Copy the characters that need no repair in one slice
+    let plain = i;
+    while (plain < end && !STRING_SPECIALS.includes(text[plain])) {
+      plain++;
+    }
+    if (plain > i) {
+      result += text.slice(i, plain);
+      i = plain - 1;
+      continue;
+    }
+
+    const char = text[i];
+    if (char === '\\') {
+      // A backslash at the end of the input escapes nothing
+      if (i + 1 >= end) {
+        result += char;
+        continue;
+      }
+      // \' in a single-quoted string (\` in a backtick string) is part of the quote conversion
+      if (text[i + 1] === quote && ascii !== '"') {
+        result += text[i + 1];
+        i++;
+        continue;
+      }
+      const escape = repairEscape(text, i, offsetOf(token, i), ctx);
+      result += escape.text;
+      i += escape.length - 1;
+      continue;
+    }
+
+    // Template literals may contain raw quotes, newlines and tabs
+    if (ascii === '`' && char in BACKTICK_ESCAPES) {
+      result += BACKTICK_ESCAPES[char];
+      continue;
+    }
+
+    // Double quotes are literal inside single-quoted strings; in a double-quoted
+    // string, one the tokenizer kept ("He said "hi" to me") was not escaped
+    if (char === '"') {
+      if (ascii === '"') {
+        const offset = offsetOf(token, i);
+        const edit = { start: offset, end: offset + 1, text: '\\"' };
+        logRepair(ctx, 'unescaped_quote', offset, 'Escaped unescaped quote in string', edit);
       }
+      result += '\\"';
+      continue;
     }
 
-    if (char === '\r') {
-      state.output.push('\\r');
-    } else {
-      state.output.push('\\n');
+    if ((char === '\n' || char === '\r') && rules.unescapedNewlines) {
+      const escaped = char === '\r' ? '\\r' : '\\n';
+      // Only log once per line (\r\n)
+      const offset = offsetOf(token, i);
+      const { line } = locate(ctx, offset);
+      if (line !== newlineLine) {
+        const edit = { start: offset, end: offset + 1, text: escaped };
+        logRepair(ctx, 'unescaped_newline', offset, 'Escaped unescaped newline in string', edit);
+        newlineLine = line;
+      }
+      result += escaped;
+      continue;
     }
-    return;
+
+    result += char;
   }
 
-  state.output.push(char);
+  if (token.closed) {
+    const closer = text[text.length - 1];
+    if (closer !== ascii && closer in UNICODE_PUNCTUATION) {
+      logUnicode(ctx, closer, offsetOf(token, text.length - 1), '"');
+    }
+    result += '"';
+  }
+
+  // Logged with the whole string as rewritten
+  const start = offsetOf(token, 0);
+  if (ascii === "'") {
+    const description = 'Converted single-quoted string to double-quoted';
+    logRepair(ctx, 'single_quote', start, description, { start, end: token.end, text: result });
+  } else if (ascii === '`') {
+    const description = 'Converted backtick string to double-quoted';
+    logRepair(ctx, 'backtick_string', start, description, { start, end: token.end, text: result });
+  }
+  return result;
 }
 
-function handleSingleQuoteStringState(state: RepairState, char: string, position: number): void {
-  const { rules } = state;
+/**
+ * Rewrite the escape sequence starting at the backslash at `index`
+ * @param offset - Input offset of the backslash, where repairs are reported
+ * @returns The JSON text and the number of characters it replaces
+ */
+function repairEscape(
+  text: string,
+  index: number,
+  offset: number,
+  ctx: RepairContext
+): { text: string; length: number } {
+  const { rules } = ctx;
+  const char = text[index + 1];
+
+  if (JSON_ESCAPES.includes(char)) {
+    return { text: `\\${char}`, length: 2 };
+  }
+
+  // \x41 → \u0041 (the two hex digits follow as plain characters)
+  if (char === 'x' && rules.hexEscapes && /^[0-9a-fA-F]{2}$/.test(text.slice(index + 2, index + 4))) {
+    const edit = { start: offset, end: offset + 2, text: '\\u00' };
+    logRepair(ctx, 'hex_escape', offset, 'Converted \\x escape to \\u', edit);
+    return { text: '\\u00', length: 2 };
+  }
 
-  if (char === '\\') {
-    state.output.push(char);
-    state.state = State.InSingleQuoteStringEscape;
-    return;
+  if (!rules.json5Escapes) {
+    return { text: `\\${char}`, length: 2 };
   }
 
-  if (char === "'") {
-    state.output.push('"'); // Convert closing quote
-    state.state = State.Normal;
-    return;
+  if (LINE_TERMINATORS.includes(char)) {
+    const length = char === '\r' && text[index + 2] === '\n' ? 3 : 2;
+    const edit = { start: offset, end: offset + length, text: '' };
+    logRepair(ctx, 'json5_escape', offset, 'Removed line continuation', edit);
+    return { text: '', length };
+  }
+  if (char in JSON5_ESCAPES) {
+    const escape = `\\${JSON5_ESCAPES[char]}`;
+    const edit = { start: offset, end: offset + 2, text: escape };
+    logRepair(ctx, 'json5_escape', offset, `Converted \\${char} escape to ${escape}`, edit);
+    return { text: escape, length: 2 };
   }
 
-  // Handle unescaped newlines in strings
-  if ((char === '\n' || char === '\r') && rules.unescapedNewlines) {
-    if (state.trackRepairs) {
-      const lastRepair = state.repairs[state.repairs.length - 1];
-      if (!lastRepair || lastRepair.type !== 'unescaped_newline' || lastRepair.line !== state.line) {
-        state.repairs.push({
-          type: 'unescaped_newline',
-          position,
-          line: state.line,
-          column: state.column,
-          description: 'Escaped unescaped newline in string',
-          fixed: true,
-        });
-      }
-    }
+  // \' → ', \` → `, \a → a
+  const edit = { start: offset, end: offset + 2, text: char };
+  logRepair(ctx, 'json5_escape', offset, `Removed unnecessary escape before ${char}`, edit);
+  return { text: char, length: 2 };
+}
 
-    if (char === '\r') {
-      state.output.push('\\r');
-    } else {
-      state.output.push('\\n');
+// ============================================================================
+// Unicode Punctuation
+// ============================================================================
+
+// Characters normalized by the unicodePunctuation rule ('' = removed)
+const UNICODE_PUNCTUATION: Record<string, string> = {
+  '\u201c': '"', // “
+  '\u201d': '"', // ”
+  '\u201e': '"', // „
+  '\uff02': '"', // ＂
+  '\u2018': "'", // ‘
+  '\u2019': "'", // ’
+  '\uff1a': ':', // ：
+  '\uff0c': ',', // ，
+  '\uff5b': '{', // ｛
+  '\uff5d': '}', // ｝
+  '\uff3b': '[', // ［
+  '\uff3d': ']', // ］
+  '\u00a0': ' ', // no-break space
+  '\u2007': ' ', // figure space
+  '\u202f': ' ', // narrow no-break space
+  '\u3000': ' ', // ideographic space
+  '\u200b': '', // zero-width space
+  '\ufeff': '', // byte order mark
+};
+
+/**
+ * Replace full-width punctuation and unusual spaces in a token
+ */
+function normalizeUnicode(token: CstToken, ctx: RepairContext): string {
+  const { text } = token;
+  let result = '';
+  // Start of the text not copied to `result` yet
+  let from = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char in UNICODE_PUNCTUATION) {
+      logUnicode(ctx, char, offsetOf(token, i));
+      result += text.slice(from, i) + UNICODE_PUNCTUATION[char];
+      from = i + 1;
     }
-    return;
   }
+  return from === 0 ? text : result + text.slice(from);
+}
 
-  state.output.push(char);
+function logUnicode(ctx: RepairContext, char: string, offset: number, ascii = UNICODE_PUNCTUATION[char]): void {
+  const replacement = ascii === '' ? 'removed' : `replaced with '${ascii}'`;
+  const edit = { start: offset, end: offset + 1, text: ascii };
+  logRepair(ctx, 'unicode_punctuation', offset, `Normalized U+${codePoint(char)} (${replacement})`, edit);
+}
+
+function codePoint(char: string): string {
+  return char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0');
 }
 
 // ============================================================================
-// Post-Processing Repairs
+// Truncation Completion
 // ============================================================================
 
+const LITERALS = ['true', 'false', 'null'];
+
 /**
- * Fix trailing commas before closing braces/brackets
+ * Complete JSON that stops mid-stream (e.g. max_tokens reached)
+ * Closes open strings, drops dangling keys and appends the missing closers
  */
-function fixTrailingCommas(text: string, state: RepairState): string {
-  const regex = /,(\s*[}\]])/g;
-  let match;
-
-  // Calculate line/column for each match
-  const lines = text.split('\n');
-  while ((match = regex.exec(text)) !== null) {
-    if (state.trackRepairs) {
-      const pos = match.index;
-      let line = 1;
-      let col = 1;
-      let charCount = 0;
-
-      for (let i = 0; i < lines.length; i++) {
-        if (charCount + lines[i].length >= pos) {
-          line = i + 1;
-          col = pos - charCount + 1;
-          break;
-        }
-        charCount += lines[i].length + 1; // +1 for newline
+function closeTruncated(document: CstDocument, ctx: RepairContext): void {
+  // Containers the input ends inside, outermost first
+  const open: Array<CstObject | CstArray> = [];
+  let value: CstValue | undefined = last(document.values);
+  while (value && value.type !== 'scalar' && value.unclosed === 'eof') {
+    open.push(value);
+    const entry = last(entriesOf(value));
+    value = entry && !entry.comma ? entry.value : undefined;
+  }
+
+  const container = last(open);
+  const entries = container ? entriesOf(container) : [];
+  const entry = last(entries);
+  const tail = value ?? (entry?.type === 'member' && !entry.comma ? entry.key : undefined);
+  const actions: string[] = [];
+  // Input offset of the first rewritten token: the repair replaces everything after it
+  let from = ctx.input.length;
+
+  const string = tail?.type === 'scalar' && tail.token.kind === 'string' && !tail.token.closed ? tail.token : undefined;
+  if (string) {
+    // Drop an incomplete \u escape or a dangling backslash
+    string.text = string.text.replace(/\\u[0-9a-fA-F]{0,3}$/, '').replace(/(^|[^\\])((?:\\\\)*)\\$/, '$1$2');
+    from = string.start;
+    // A key without its value is dropped below
+    if (tail !== (entry as CstMember | undefined)?.key) {
+      string.text += string.text.startsWith('"') ? '"' : string.quote;
+      actions.push('closed unterminated string');
+    }
+  }
+
+  if (!container) {
+    logTruncation(document, from, actions, ctx);
+    return;
+  }
+
+  // Incomplete literal or number: tru → true, 1. → 1, - → (dropped)
+  const bare = entry && !entry.comma && entry.value?.type === 'scalar' ? entry.value : undefined;
+  if (entry && bare && bare.token.kind === 'bare') {
+    const { text } = bare.token;
+    from = Math.min(from, bare.token.start);
+    const literal = LITERALS.find((l) => l !== text && l.startsWith(text));
+    if (literal) {
+      bare.token.text = literal;
+      actions.push(`completed literal ${literal}`);
+    } else if (/^-?\d*(?:\.\d*)?(?:[eE][-+]?)?$/.test(text) && !/^-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?$/.test(text)) {
+      const fixed = text.replace(/[eE][-+]?$/, '').replace(/\.$/, '');
+      if (/\d/.test(fixed)) {
+        bare.token.text = fixed;
+        actions.push(`completed number ${fixed}`);
+      } else {
+        removeChild(entry, bare);
+        entry.value = undefined;
+        actions.push('dropped incomplete value');
       }
+    }
+  }
 
-      state.repairs.push({
-        type: 'trailing_comma',
-        position: pos,
-        line,
-        column: col,
-        description: 'Removed trailing comma',
-        fixed: true,
-      });
+  // Drop what cannot be completed: a dangling comma, a key without a value
+  for (let current = last(entries); current; current = last(entries)) {
+    if (current.comma) {
+      from = Math.min(from, current.comma.start);
+      removeChild(current, current.comma);
+      current.comma = undefined;
+      actions.push('removed dangling comma');
     }
+    if (current.value) {
+      break;
+    }
+    from = Math.min(from, startOf(current) ?? from);
+    entries.splice(entries.indexOf(current), 1);
+    removeChild(container, current);
+    actions.push(current.type === 'member' ? 'dropped dangling key' : 'dropped empty item');
+  }
+
+  from = Math.min(from, trimTrailingWhitespace(open[0]) ?? from);
+
+  let closers = '';
+  for (const node of open.reverse()) {
+    closers += closeContainer(node, ctx.input.length, ctx);
   }
+  actions.push(`appended '${closers}'`);
 
-  return text.replace(/,(\s*[}\]])/g, '$1');
+  logTruncation(document, from, actions, ctx);
+}
+
+function logTruncation(document: CstDocument, from: number, actions: string[], ctx: RepairContext): void {
+  if (actions.length > 0) {
+    const description = `Completed truncated JSON: ${actions.join(', ')}`;
+    const edit = { start: from, end: ctx.input.length, text: textFrom(document, from) };
+    logRepair(ctx, 'truncated_close', ctx.input.length, description, edit);
+  }
 }
 
 /**
- * Fix unquoted property names in objects
+ * Remove whitespace at the end of a node (the closers follow it)
+ * @returns Input offset of the first removed token, if any
  */
-function fixUnquotedKeys(text: string, state: RepairState): string {
-  // Match unquoted keys: { key: or , key:
-  // Avoid matching inside strings by using a more careful regex
-  const regex = /([{,]\s*)([a-zA-Z_$][a-zA-Z0-9_$]*)(\s*:)/g;
-  let match;
-
-  // First pass: collect repairs
-  const tempText = text;
-  while ((match = regex.exec(tempText)) !== null) {
-    if (state.trackRepairs) {
-      const pos = match.index + match[1].length;
-      const lines = text.substring(0, pos).split('\n');
-      const line = lines.length;
-      const col = lines[lines.length - 1].length + 1;
-
-      state.repairs.push({
-        type: 'unquoted_key',
-        position: pos,
-        line,
-        column: col,
-        description: `Quoted unquoted key: ${match[2]}`,
-        fixed: true,
-      });
+function trimTrailingWhitespace(node: CstNode): number | undefined {
+  let removed: number | undefined;
+  for (let child = last(node.children); child; child = last(node.children)) {
+    if (!isToken(child)) {
+      return trimTrailingWhitespace(child) ?? removed;
     }
+    if (child.kind !== 'whitespace') {
+      return removed;
+    }
+    removed = child.start;
+    node.children.pop();
+  }
+  return removed;
+}
+
+/**
+ * Printed text of the tokens at or after an input offset (inserted tokens included)
+ */
+function textFrom(child: CstChild, from: number): string {
+  if (isToken(child)) {
+    return child.start >= from ? child.text : '';
   }
+  return child.children.map((grandchild) => textFrom(grandchild, from)).join('');
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function hasContent(entry: CstMember | CstItem): boolean {
+  return entry.value !== undefined || (entry.type === 'member' && entry.key !== undefined);
+}
 
-  return text.replace(regex, '$1"$2"$3');
+function removeChild(node: CstNode, child: CstChild): void {
+  node.children.splice(node.children.indexOf(child), 1);
 }
 
 /**
- * Fix invalid JavaScript values like undefined, NaN, Infinity
+ * Input offset of the first token of a subtree
  */
-function fixInvalidValues(text: string, state: RepairState): string {
-  let result = text;
-
-  // Track if we're inside a string to avoid replacing inside strings
-  const replacements: Array<{ pattern: RegExp; name: string }> = [
-    { pattern: /:\s*undefined\b/g, name: 'undefined' },
-    { pattern: /:\s*NaN\b/g, name: 'NaN' },
-    { pattern: /:\s*-?Infinity\b/g, name: 'Infinity' },
-  ];
-
-  for (const { pattern, name } of replacements) {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      if (state.trackRepairs) {
-        const pos = match.index;
-        const lines = text.substring(0, pos).split('\n');
-        const line = lines.length;
-        const col = lines[lines.length - 1].length + 1;
-
-        state.repairs.push({
-          type: 'invalid_value',
-          position: pos,
-          line,
-          column: col,
-          description: `Replaced ${name} with null`,
-          fixed: true,
-        });
-      }
+function startOf(child: CstChild): number | undefined {
+  if (isToken(child)) {
+    return child.start;
+  }
+  for (const grandchild of child.children) {
+    const start = startOf(grandchild);
+    if (start !== undefined) {
+      return start;
     }
-    result = result.replace(pattern, ': null');
   }
+  return undefined;
+}
 
-  return result;
+/**
+ * Input offset after the last token of a subtree
+ */
+function endOf(child: CstChild): number | undefined {
+  if (isToken(child)) {
+    return child.end;
+  }
+  for (let i = child.children.length - 1; i >= 0; i--) {
+    const end = endOf(child.children[i]);
+    if (end !== undefined) {
+      return end;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Input offset of a character of a token's text
+ */
+function offsetOf(token: CstToken, index: number): number {
+  return token.offsets?.[index] ?? token.start + index;
+}
+
+function last<T>(items: T[]): T | undefined {
+  return items[items.length - 1];
+}
+
+function locate(ctx: RepairContext, offset: number): SourcePosition {
+  if (!ctx.lines) {
+    ctx.lines = lineStarts(ctx.input);
+  }
+  return toPosition(ctx.lines, offset);
+}
+
+function replace(token: CstToken, text: string): Edit {
+  return { start: token.start, end: token.end, text };
+}
+
+function insert(at: number, text: string): Edit {
+  return { start: at, end: at, text };
+}
+
+// Characters of the input shown on each side of a repair in its snippets
+const SNIPPET_CONTEXT = 20;
+
+/**
+ * @param edit - Input text rewritten by the repair, shown as `original` / `replacement` snippets
+ */
+function logRepair(
+  ctx: RepairContext,
+  type: RepairLog['type'],
+  offset: number,
+  description: string,
+  edit?: Edit
+): void {
+  if (!ctx.trackRepairs) {
+    return;
+  }
+
+  const { line, column } = locate(ctx, offset);
+  const repair: RepairLog = { type, position: offset, line, column, description, fixed: true };
+
+  if (edit) {
+    // Context stays on the lines of the edit
+    const { input } = ctx;
+    const before = input.slice(Math.max(0, edit.start - SNIPPET_CONTEXT), edit.start).split(/[\r\n]/).pop();
+    const after = input.slice(edit.end, edit.end + SNIPPET_CONTEXT).split(/[\r\n]/)[0];
+    repair.original = before + input.slice(edit.start, edit.end) + after;
+    repair.replacement = before + edit.text + after;
+  }
+  ctx.repairs.push(repair);
 }
 
 // ============================================================================
@@ -473,30 +929,39 @@ function fixInvalidValues(text: string, state: RepairState): string {
 
 /**
  * Streaming JSON repair for chunk-by-chunk processing
- * 
+ *
  * @example
  * ```ts
  * const repairer = new StreamingRepair();
- * 
+ *
  * for await (const chunk of stream) {
  *   const repaired = repairer.addChunk(chunk);
  *   process(repaired);
  * }
- * 
+ *
  * const final = repairer.flush();
  * ```
  */
 export class StreamingRepair {
   private buffer: string = '';
-  private state: State = State.Normal;
+  /** Buffer offset to resume scanning at: the start of the last token, which more input may extend */
+  private scanFrom: number = 0;
+  /** Buffer offset after the last complete string or container */
+  private safeEnd: number = 0;
+  /** Whether the buffer ends inside a string */
+  private openString: boolean = false;
+  /** Containers left open by the sections repaired so far */
+  private context: ParseFrame[] = [];
   private repairs: RepairLog[] = [];
   private rules: Required<RepairRules>;
+  private customRules: CustomRepairRule[];
   private line: number = 1;
   private position: number = 0;
   private trackRepairs: boolean;
 
   constructor(options: RepairOptions = {}) {
-    this.rules = { ...DEFAULT_REPAIR_RULES, ...options.rules };
+    this.rules = resolveRules(options);
+    this.customRules = options.customRules ?? [];
     this.trackRepairs = options.trackRepairs ?? false;
   }
 
@@ -505,14 +970,16 @@ export class StreamingRepair {
    */
   addChunk(chunk: string): string {
     this.buffer += chunk;
-    const { safe, pending } = this.findSafeSection();
-    
+    const { safe, pending } = this.findSafeSection(chunk);
+
     if (safe.length === 0) {
       return '';
     }
 
     const repaired = this.repairSection(safe);
     this.buffer = pending;
+    this.scanFrom -= safe.length;
+    this.safeEnd = 0;
     return repaired;
   }
 
@@ -525,6 +992,9 @@ export class StreamingRepair {
     }
     const repaired = this.repairSection(this.buffer);
     this.buffer = '';
+    this.scanFrom = 0;
+    this.safeEnd = 0;
+    this.openString = false;
     return repaired;
   }
 
@@ -540,7 +1010,10 @@ export class StreamingRepair {
    */
   reset(): void {
     this.buffer = '';
-    this.state = State.Normal;
+    this.scanFrom = 0;
+    this.safeEnd = 0;
+    this.openString = false;
+    this.context = [];
     this.repairs = [];
     this.line = 1;
     this.position = 0;
@@ -548,89 +1021,56 @@ export class StreamingRepair {
 
   /**
    * Find the safe-to-emit portion of the buffer
-   * Keeps potential incomplete tokens in the pending buffer
+   * Splits only after a complete string or container followed by , : } or ], so every
+   * section starts at a value boundary (keys, trailing commas, tokens and values missing
+   * the comma between them stay in one section)
+   *
+   * Scanning resumes at the last token of the previous chunk, so each character
+   * is read about once however the input is chunked.
    */
-  private findSafeSection(): { safe: string; pending: string } {
-    if (this.buffer.length === 0) {
-      return { safe: '', pending: '' };
+  private findSafeSection(chunk: string): { safe: string; pending: string } {
+    // An open string stays open until a quote arrives
+    if (this.openString && !containsQuote(chunk)) {
+      return this.splitAt(this.safeEnd);
     }
 
-    // Find the last "safe" position to split
-    // Safe positions are outside strings and comments
-    let safeEnd = 0;
-    let tempState = this.state;
-    let inEscape = false;
-
-    for (let i = 0; i < this.buffer.length; i++) {
-      const char = this.buffer[i];
-      const nextChar = this.buffer[i + 1];
+    const tokenizer = new Tokenizer(this.buffer, { unescapedQuotes: this.rules.unescapedQuotes }, this.scanFrom);
+    this.openString = false;
+    // The last complete string or container, until the next token shows whether a comma is missing after it
+    let value: CstToken | undefined;
 
-      if (inEscape) {
-        inEscape = false;
+    for (let token = tokenizer.next(); token; token = tokenizer.next()) {
+      this.scanFrom = token.start;
+      if (token.kind === 'whitespace' || token.kind === 'comment') {
         continue;
       }
 
-      switch (tempState) {
-        case State.Normal:
-          if (char === '"') {
-            tempState = State.InString;
-          } else if (char === "'" && this.rules.singleQuotes) {
-            tempState = State.InSingleQuoteString;
-          } else if (char === '/' && nextChar === '/') {
-            tempState = State.InSingleLineComment;
-          } else if (char === '/' && nextChar === '*') {
-            tempState = State.InMultiLineComment;
-          } else {
-            // Safe to split here
-            safeEnd = i + 1;
-          }
-          break;
-
-        case State.InString:
-          if (char === '\\') {
-            inEscape = true;
-          } else if (char === '"') {
-            tempState = State.Normal;
-            safeEnd = i + 1;
-          }
-          break;
-
-        case State.InSingleQuoteString:
-          if (char === '\\') {
-            inEscape = true;
-          } else if (char === "'") {
-            tempState = State.Normal;
-            safeEnd = i + 1;
-          }
-          break;
-
-        case State.InSingleLineComment:
-          if (char === '\n') {
-            tempState = State.Normal;
-            safeEnd = i + 1;
-          }
-          break;
+      // ["x" "y"]: the comma goes after "x", so the next value stays in the same section
+      if (value && token.symbol !== undefined && ',:}]'.includes(token.symbol)) {
+        this.safeEnd = value.end;
+      }
+      value = undefined;
 
-        case State.InMultiLineComment:
-          if (char === '*' && nextChar === '/') {
-            tempState = State.Normal;
-            // Will be safe after */
-          }
+      if (token.kind === 'string') {
+        // Without the next character, an inner quote cannot be told from a closing one
+        if (!token.closed || (this.rules.unescapedQuotes && nextSignificant(this.buffer, token.end) === undefined)) {
+          this.openString = !token.closed;
           break;
+        }
+        value = token;
+      } else if (token.symbol === '}' || token.symbol === ']') {
+        value = token;
       }
     }
+    this.scanFrom = value ? value.start : Math.max(this.scanFrom, this.safeEnd);
 
-    // Keep some buffer for context (potential trailing comma, etc.)
-    const minPending = 10;
-    if (safeEnd > minPending) {
-      safeEnd = Math.max(0, safeEnd - minPending);
-    } else {
-      safeEnd = 0;
-    }
+    return this.splitAt(this.safeEnd);
+  }
 
+  private splitAt(index: number): { safe: string; pending: string } {
     return {
-      safe: this.buffer.substring(0, safeEnd),
-      pending: this.buffer.substring(safeEnd),
+      safe: this.buffer.substring(0, index),
+      pending: this.buffer.substring(index),
     };
   }
 
@@ -638,12 +1078,12 @@ export class StreamingRepair {
    * Repair a section of text
    */
   private repairSection(text: string): string {
-    const result = repairJson(text, {
-      trackRepairs: this.trackRepairs,
-      rules: this.rules,
-    });
+    // Sections are partial by design, so never close them as truncated
+    const rules = { ...this.rules, closeTruncated: false };
+    const result = repairText(text, rules, this.customRules, this.trackRepairs, this.context);
+    this.context = result.context;
 
-    if (this.trackRepairs && typeof result === 'object') {
+    if (this.trackRepairs) {
       // Adjust positions for streaming context
       for (const repair of result.repairs) {
         if (repair.position !== undefined) {
@@ -654,13 +1094,6 @@ export class StreamingRepair {
         }
       }
       this.repairs.push(...result.repairs);
-      
-      // Update position tracking
-      const lines = text.split('\n');
-      this.line += lines.length - 1;
-      this.position += text.length;
-      
-      return result.text;
     }
 
     // Update position tracking
@@ -668,6 +1101,6 @@ export class StreamingRepair {
     this.line += lines.length - 1;
     this.position += text.length;
 
-    return result as string;
+    return result.text;
   }
 }
@@ -4,4 +4,13 @@
  */
 
 export { SchemaValidator, validate } from './validator';
-export type { LootSchema, SchemaType, StringFormat, ValidationError, ValidationResult } from './types';
+export type {
+  LootSchema,
+  SchemaType,
+  StringFormat,
+  ValidationError,
+  ValidationResult,
+  ValidationOptions,
+  CoercionLog,
+  CoercionType,
+} from './types';
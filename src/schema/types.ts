@@ -61,6 +61,9 @@ export interface LootSchema {
   enum?: unknown[];
   const?: unknown;
 
+  // Annotations
+  default?: unknown;
+
   // Composition (v0.5.0)
   allOf?: LootSchema[];
   anyOf?: LootSchema[];
@@ -73,6 +76,22 @@ export interface LootSchema {
   else?: LootSchema;
 }
 
+// ============================================================================
+// Validation Options
+// ============================================================================
+
+/**
+ * Options for schema validation
+ */
+export interface ValidationOptions {
+  /**
+   * Convert values to match the schema before validating
+   * (e.g. "42" → 42, "true" → true, single value → [value], missing property → default)
+   * @default false
+   */
+  coerce?: boolean;
+}
+
 // ============================================================================
 // Validation Results
 // ============================================================================
@@ -84,11 +103,48 @@ export interface ValidationResult<T = unknown> {
   /** Whether the data is valid */
   valid: boolean;
 
-  /** The validated data (same as input if valid, null if invalid) */
+  /** The validated data (same as input if valid, coerced when coerce is enabled, null if invalid) */
   data: T | null;
 
   /** List of validation errors */
   errors: ValidationError[];
+
+  /** List of coercions that were applied (only when coerce is enabled) */
+  coercions?: CoercionLog[];
+}
+
+/**
+ * Types of coercions that can be applied in coerce mode
+ */
+export type CoercionType =
+  | 'string_to_number'
+  | 'string_to_integer'
+  | 'string_to_boolean'
+  | 'number_to_boolean'
+  | 'string_to_null'
+  | 'to_string'
+  | 'wrap_array'
+  | 'enum_match'
+  | 'default_value';
+
+/**
+ * Individual coercion log entry
+ */
+export interface CoercionLog {
+  /** Type of coercion performed */
+  type: CoercionType;
+
+  /** JSON path to the coerced value */
+  path: string;
+
+  /** Original value (undefined for defaults) */
+  from: unknown;
+
+  /** Coerced value */
+  to: unknown;
+
+  /** Human-readable description of the coercion */
+  description: string;
 }
 
 /**
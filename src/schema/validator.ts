@@ -7,9 +7,18 @@
  * - Conditional keywords: if/then/else
  * - $ref support with definitions
  * - patternProperties, propertyNames, contains
+ * - Coerce mode: fixes LLM-typical type mismatches instead of just rejecting them
  */
 
-import { LootSchema, SchemaType, ValidationError, ValidationResult } from './types';
+import {
+  CoercionLog,
+  CoercionType,
+  LootSchema,
+  SchemaType,
+  ValidationError,
+  ValidationOptions,
+  ValidationResult,
+} from './types';
 
 /**
  * JSON Schema validator
@@ -17,6 +26,7 @@ import { LootSchema, SchemaType, ValidationError, ValidationResult } from './typ
  */
 export class SchemaValidator {
   private errors: ValidationError[] = [];
+  private coercions: CoercionLog[] = [];
   private path: string[] = [];
   private rootSchema: LootSchema | null = null;
   private definitions: Map<string, LootSchema> = new Map();
@@ -41,10 +51,19 @@ export class SchemaValidator {
    * } else {
    *   console.log('Errors:', result.errors);
    * }
+   *
+   * // Coerce mode: "42" → 42, "true" → true
+   * const coerced = validator.validate({ age: '42' }, schema, { coerce: true });
+   * console.log(coerced.data, coerced.coercions);
    * ```
    */
-  validate<T = unknown>(data: unknown, schema: LootSchema): ValidationResult<T> {
+  validate<T = unknown>(
+    data: unknown,
+    schema: LootSchema,
+    options: ValidationOptions = {}
+  ): ValidationResult<T> {
     this.errors = [];
+    this.coercions = [];
     this.path = [];
     this.rootSchema = schema;
     this.definitions = new Map();
@@ -56,13 +75,225 @@ export class SchemaValidator {
       }
     }
 
+    if (options.coerce) {
+      data = this.coerceValue(data, schema);
+      this.path = [];
+    }
+
     this.validateValue(data, schema);
 
-    return {
+    const result: ValidationResult<T> = {
       valid: this.errors.length === 0,
       data: this.errors.length === 0 ? (data as T) : null,
       errors: this.errors,
     };
+
+    if (options.coerce) {
+      result.coercions = this.coercions;
+    }
+
+    return result;
+  }
+
+  // ============================================================================
+  // Coercion
+  // ============================================================================
+
+  /**
+   * Return a copy of the value converted towards the schema (input is not mutated)
+   */
+  private coerceValue(value: unknown, schema: LootSchema): unknown {
+    if (schema.$ref) {
+      const resolvedSchema = this.resolveRef(schema.$ref);
+      return resolvedSchema ? this.coerceValue(value, resolvedSchema) : value;
+    }
+
+    let result = value;
+
+    if (schema.allOf) {
+      for (const subSchema of schema.allOf) {
+        result = this.coerceValue(result, subSchema);
+      }
+    }
+
+    // For anyOf/oneOf, use the first branch the coerced value satisfies
+    const branches = schema.anyOf ?? schema.oneOf;
+    if (branches && !branches.some((b) => new SchemaValidator().validate(result, b).valid)) {
+      for (const branch of branches) {
+        const branchValidator = new SchemaValidator();
+        const branchResult = branchValidator.validate(result, branch, { coerce: true });
+        if (branchResult.valid) {
+          for (const log of branchResult.coercions ?? []) {
+            this.addCoercion(log.type, log.from, log.to, log.description, log.path);
+          }
+          result = branchResult.data;
+          break;
+        }
+      }
+    }
+
+    if (schema.type !== undefined) {
+      result = this.coerceType(result, schema.type);
+    }
+
+    if (schema.enum !== undefined) {
+      result = this.coerceEnum(result, schema.enum);
+    }
+
+    const type = this.getType(result);
+
+    if (type === 'object') {
+      result = this.coerceObject(result as Record<string, unknown>, schema);
+    } else if (type === 'array') {
+      result = this.coerceArray(result as unknown[], schema);
+    }
+
+    return result;
+  }
+
+  private coerceType(value: unknown, type: SchemaType | SchemaType[]): unknown {
+    const types = Array.isArray(type) ? type : [type];
+    const actualType = this.getType(value);
+
+    const matches = types.some(
+      (t) =>
+        t === actualType ||
+        (t === 'number' && actualType === 'integer') ||
+        (t === 'integer' && actualType === 'number' && Number.isInteger(value))
+    );
+    if (matches) return value;
+
+    for (const target of types) {
+      switch (target) {
+        case 'integer':
+        case 'number': {
+          if (typeof value !== 'string' || value.trim() === '') break;
+          const num = Number(value.trim());
+          if (!Number.isFinite(num) || (target === 'integer' && !Number.isInteger(num))) break;
+          const kind = target === 'integer' ? 'string_to_integer' : 'string_to_number';
+          this.addCoercion(kind, value, num, `Converted string "${value}" to ${target}`);
+          return num;
+        }
+
+        case 'boolean': {
+          if (typeof value === 'string') {
+            const lower = value.trim().toLowerCase();
+            if (lower === 'true' || lower === 'false') {
+              const bool = lower === 'true';
+              this.addCoercion('string_to_boolean', value, bool, `Converted string "${value}" to boolean`);
+              return bool;
+            }
+          } else if (value === 0 || value === 1) {
+            const bool = value === 1;
+            this.addCoercion('number_to_boolean', value, bool, `Converted number ${value} to boolean`);
+            return bool;
+          }
+          break;
+        }
+
+        case 'null': {
+          if (typeof value === 'string' && value.trim().toLowerCase() === 'null') {
+            this.addCoercion('string_to_null', value, null, `Converted string "${value}" to null`);
+            return null;
+          }
+          break;
+        }
+
+        case 'string': {
+          if (typeof value === 'number' || typeof value === 'boolean') {
+            const str = String(value);
+            this.addCoercion('to_string', value, str, `Converted ${typeof value} ${str} to string`);
+            return str;
+          }
+          break;
+        }
+
+        case 'array': {
+          if (value !== undefined) {
+            this.addCoercion('wrap_array', value, [value], 'Wrapped single value in an array');
+            return [value];
+          }
+          break;
+        }
+      }
+    }
+
+    return value;
+  }
+
+  private coerceEnum(value: unknown, enumValues: unknown[]): unknown {
+    if (enumValues.some((e) => this.deepEqual(value, e))) return value;
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+      return value;
+    }
+
+    // Match by string form, case-insensitively ("Happy" → "happy", "1" → 1)
+    const needle = String(value).trim().toLowerCase();
+    const match = enumValues.find(
+      (e) =>
+        (typeof e === 'string' || typeof e === 'number' || typeof e === 'boolean') &&
+        String(e).toLowerCase() === needle
+    );
+
+    if (match === undefined) return value;
+
+    this.addCoercion(
+      'enum_match',
+      value,
+      match,
+      `Matched ${JSON.stringify(value)} to enum value ${JSON.stringify(match)}`
+    );
+    return match;
+  }
+
+  private coerceObject(value: Record<string, unknown>, schema: LootSchema): Record<string, unknown> {
+    const result: Record<string, unknown> = { ...value };
+
+    if (schema.properties) {
+      for (const [key, propSchema] of Object.entries(schema.properties)) {
+        this.path.push(key);
+        if (key in result) {
+          result[key] = this.coerceValue(result[key], propSchema);
+        } else if (propSchema.default !== undefined) {
+          const defaultValue = JSON.parse(JSON.stringify(propSchema.default));
+          this.addCoercion(
+            'default_value',
+            undefined,
+            defaultValue,
+            `Filled missing property "${key}" with default value`
+          );
+          result[key] = defaultValue;
+        }
+        this.path.pop();
+      }
+    }
+
+    if (typeof schema.additionalProperties === 'object') {
+      const definedKeys = new Set(Object.keys(schema.properties || {}));
+      for (const key of Object.keys(result)) {
+        if (definedKeys.has(key)) continue;
+        this.path.push(key);
+        result[key] = this.coerceValue(result[key], schema.additionalProperties);
+        this.path.pop();
+      }
+    }
+
+    return result;
+  }
+
+  private coerceArray(value: unknown[], schema: LootSchema): unknown[] {
+    if (!schema.items) return value;
+
+    const items = schema.items;
+    return value.map((item, i) => {
+      const itemSchema = Array.isArray(items) ? items[i] : items;
+      if (!itemSchema) return item;
+
+      this.path.push(String(i));
+      const coerced = this.coerceValue(item, itemSchema);
+      this.path.pop();
+      return coerced;
+    });
   }
 
   // ============================================================================
@@ -659,6 +890,22 @@ export class SchemaValidator {
     return true;
   }
 
+  private addCoercion(
+    type: CoercionType,
+    from: unknown,
+    to: unknown,
+    description: string,
+    subPath?: string
+  ): void {
+    const base = this.path.length > 0 ? this.path.join('.') : '(root)';
+    let path = base;
+    if (subPath && subPath !== '(root)') {
+      path = base === '(root)' ? subPath : `${base}.${subPath}`;
+    }
+
+    this.coercions.push({ type, path, from, to, description });
+  }
+
   private addError(
     keyword: string,
     message: string,
@@ -690,9 +937,16 @@ export class SchemaValidator {
  *   },
  *   required: ['name'],
  * });
+ *
+ * // Fix "42" → 42 etc. instead of rejecting
+ * const coerced = validate({ name: 'John', age: '30' }, schema, { coerce: true });
  * ```
  */
-export function validate<T = unknown>(data: unknown, schema: LootSchema): ValidationResult<T> {
+export function validate<T = unknown>(
+  data: unknown,
+  schema: LootSchema,
+  options: ValidationOptions = {}
+): ValidationResult<T> {
   const validator = new SchemaValidator();
-  return validator.validate<T>(data, schema);
+  return validator.validate<T>(data, schema, options);
 }
@@ -0,0 +1,215 @@
+/**
+ * 💎 loot-json source maps
+ * Map values in a looted result back to their span in the raw input
+ */
+
+import { isToken, parseCst } from './cst/parser';
+import { lineStarts, toPosition } from './cst/tokenizer';
+import { CstChild, CstToken, CstValue } from './cst/types';
+import { SourceMap, SourcePosition, SourceSpan } from './types';
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Build a source map for a JSON candidate found at `offset` in `input`
+ *
+ * The candidate is parsed as written (before repair) into a concrete syntax tree,
+ * so spans point at the original text. Only pointers that exist in `value` are kept.
+ *
+ * @param input - The full raw input
+ * @param offset - Where the candidate starts in `input`
+ * @param end - Where the candidate ends in `input` (exclusive)
+ * @param value - The parsed (repaired) value
+ * @param prefix - JSON pointer prefix for every entry (used for `all` results)
+ */
+export function buildSourceMap(
+  input: string,
+  offset: number,
+  end: number,
+  value: unknown,
+  prefix: string = ''
+): SourceMap {
+  const lines = lineStarts(input);
+  const [root] = parseCst(input.slice(offset, end)).values;
+  const spans = new Map<string, RawSpan>();
+  if (root) {
+    collectSpans(root, '', spans);
+  }
+
+  const position = (at: number): SourcePosition => toPosition(lines, offset + at);
+  const map: SourceMap = {};
+
+  for (const [pointer, span] of spans) {
+    if (!hasPointer(value, pointer)) {
+      continue;
+    }
+    const entry: SourceSpan = { start: position(span.start), end: position(span.end) };
+    if (span.key) {
+      entry.key = { start: position(span.key.start), end: position(span.key.end) };
+    }
+    map[prefix + pointer] = entry;
+  }
+
+  return map;
+}
+
+/**
+ * Look up the span for a JSON pointer (`/items/0/name`) or a validation
+ * error path (`items.0.name`, `(root)`)
+ *
+ * @example
+ * ```ts
+ * const { result, sourceMap } = loot(text, { sourceMap: true });
+ * const { errors } = validate(result, schema);
+ * const span = findSourceSpan(sourceMap, errors[0].path);
+ * highlight(text.slice(span.start.offset, span.end.offset));
+ * ```
+ */
+export function findSourceSpan(sourceMap: SourceMap, path: string): SourceSpan | undefined {
+  if (path === '' || path.startsWith('/')) {
+    return sourceMap[path];
+  }
+  if (path === '(root)') {
+    return sourceMap[''];
+  }
+  return sourceMap['/' + path.split('.').map(escapePointer).join('/')];
+}
+
+// ============================================================================
+// Spans
+// ============================================================================
+
+interface RawSpan {
+  start: number;
+  end: number;
+  key?: { start: number; end: number };
+}
+
+/**
+ * Record the span of a value and its descendants by JSON pointer
+ * Duplicate keys keep the last occurrence (as JSON.parse does)
+ */
+function collectSpans(node: CstValue, pointer: string, spans: Map<string, RawSpan>): void {
+  const start = firstToken(node);
+  const end = lastToken(node);
+  if (!start || !end) {
+    return;
+  }
+  spans.set(pointer, { start: start.start, end: end.end });
+
+  if (node.type === 'object') {
+    for (const member of node.members) {
+      if (!member.key || !member.value) {
+        continue;
+      }
+      const { token } = member.key;
+      const childPointer = `${pointer}/${escapePointer(keyOf(token))}`;
+      collectSpans(member.value, childPointer, spans);
+      const span = spans.get(childPointer);
+      if (span) {
+        span.key = { start: token.start, end: token.end };
+      }
+    }
+  } else if (node.type === 'array') {
+    let index = 0;
+    for (const item of node.items) {
+      if (item.value) {
+        collectSpans(item.value, `${pointer}/${index}`, spans);
+        index++;
+      }
+    }
+  }
+}
+
+/**
+ * First token of a subtree that is not trivia or stray text
+ */
+function firstToken(child: CstChild): CstToken | undefined {
+  if (isToken(child)) {
+    return isSignificant(child) ? child : undefined;
+  }
+  if (child.type === 'stray') {
+    return undefined;
+  }
+  for (const grandchild of child.children) {
+    const token = firstToken(grandchild);
+    if (token) {
+      return token;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Last token of a subtree that is not trivia or stray text
+ */
+function lastToken(child: CstChild): CstToken | undefined {
+  if (isToken(child)) {
+    return isSignificant(child) ? child : undefined;
+  }
+  if (child.type === 'stray') {
+    return undefined;
+  }
+  for (let i = child.children.length - 1; i >= 0; i--) {
+    const token = lastToken(child.children[i]);
+    if (token) {
+      return token;
+    }
+  }
+  return undefined;
+}
+
+function isSignificant(token: CstToken): boolean {
+  return token.kind !== 'whitespace' && token.kind !== 'comment' && token.kind !== 'unknown';
+}
+
+/**
+ * Key as it reads once repaired: a bare word, or a string's (roughly) decoded content
+ */
+function keyOf(token: CstToken): string {
+  if (token.kind !== 'string') {
+    return token.text;
+  }
+
+  const raw = token.text.slice(1, token.closed ? -1 : undefined);
+  try {
+    return JSON.parse(`"${raw.replace(/\\'/g, "'").replace(/(?<!\\)"/g, '\\"')}"`) as string;
+  } catch {
+    return raw;
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Whether a JSON pointer resolves inside a value
+ */
+function hasPointer(value: unknown, pointer: string): boolean {
+  if (pointer === '') {
+    return true;
+  }
+
+  let current = value;
+  for (const segment of pointer.slice(1).split('/').map(unescapePointer)) {
+    if (current === null || typeof current !== 'object') {
+      return false;
+    }
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) {
+      return false;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return true;
+}
@@ -2,6 +2,8 @@
  * 💎 loot-json types
  */
 
+import type { LootSchema, ValidationError } from './schema/types';
+
 // ============================================================================
 // Repair Types
 // ============================================================================
@@ -16,15 +18,31 @@ export type RepairType =
   | 'multi_line_comment'
   | 'unquoted_key'
   | 'invalid_value'
-  | 'unescaped_newline';
+  | 'unescaped_newline'
+  | 'truncated_close'
+  | 'python_literal'
+  | 'tuple'
+  | 'hex_number'
+  | 'leading_decimal_point'
+  | 'trailing_decimal_point'
+  | 'plus_sign'
+  | 'backtick_string'
+  | 'hex_escape'
+  | 'json5_escape'
+  | 'missing_comma'
+  | 'missing_colon'
+  | 'unescaped_quote'
+  | 'unicode_punctuation'
+  | 'stray_text'
+  | 'unbalanced_bracket';
 
 /**
  * Individual repair log entry
  */
 export interface RepairLog {
-  /** Type of repair performed */
-  type: RepairType;
-  /** Character position where repair was applied (approximate) */
+  /** Type of repair performed (or the `name` of a custom rule) */
+  type: RepairType | (string & {});
+  /** Offset in the original input where the repair was applied */
   position?: number;
   /** Line number (1-based) where repair was applied */
   line?: number;
@@ -34,6 +52,10 @@ export interface RepairLog {
   description: string;
   /** Whether the repair was successful */
   fixed: boolean;
+  /** Input text around the repair, as it was (up to 20 characters of context on each side, same line) */
+  original?: string;
+  /** The same text with the repair applied */
+  replacement?: string;
 }
 
 /**
@@ -68,6 +90,98 @@ export interface RepairRules {
   invalidValues?: boolean;
   /** Escape unescaped newlines in strings @default true */
   unescapedNewlines?: boolean;
+  /** Complete truncated JSON (close strings, drop dangling keys, append closers) @default true */
+  closeTruncated?: boolean;
+  /** Replace Python True, False, None with true, false, null @default true */
+  pythonLiterals?: boolean;
+  /** Convert Python tuples (1, 2) to arrays [1, 2] @default true */
+  tuples?: boolean;
+  /** Convert hex numbers 0x1F to decimal 31 @default true */
+  hexNumbers?: boolean;
+  /** Add a leading zero to .5 @default true */
+  leadingDecimalPoint?: boolean;
+  /** Remove the trailing dot from 5. @default true */
+  trailingDecimalPoint?: boolean;
+  /** Remove the plus sign from +3 @default true */
+  plusSign?: boolean;
+  /** Convert `backtick` strings to double-quoted strings @default true */
+  backtickStrings?: boolean;
+  /** Convert \x41 escapes to \u0041 @default true */
+  hexEscapes?: boolean;
+  /** Rewrite JSON5-only escapes: \' \v \0, line continuations, unnecessary escapes @default false */
+  json5Escapes?: boolean;
+  /** Insert missing commas between adjacent values: [1 2] @default true */
+  missingCommas?: boolean;
+  /** Insert missing colons after keys: {"a" 1} @default true */
+  missingColons?: boolean;
+  /** Keep quotes inside string values that are not followed by , : } ] ("He said "hi"", 'O'Brien') @default true */
+  unescapedQuotes?: boolean;
+  /** Normalize smart quotes, full-width punctuation and unusual spaces outside strings @default true */
+  unicodePunctuation?: boolean;
+  /** Remove stray characters between values: {"a": 1;} @default true */
+  strayText?: boolean;
+  /** Close inner containers at an outer closer and drop unmatched closers: {"a": [1}} @default true */
+  unbalancedBrackets?: boolean;
+}
+
+/**
+ * Where a custom rule hook is called
+ */
+export interface RepairRuleContext {
+  /** The full input being repaired */
+  input: string;
+  /** Offset of the current character or token in the input */
+  position: number;
+  /** Line number (1-based) */
+  line: number;
+  /** Column number (1-based) */
+  column: number;
+  /** Whether the character is inside a string */
+  inString: boolean;
+}
+
+/**
+ * What a custom rule hook replaces
+ */
+export interface RepairRuleResult {
+  /** Text to use instead of the matched input (processed like input by onChar, emitted as-is by onToken) */
+  replacement: string;
+  /** Number of input characters replaced by an onChar hook, starting at the current one @default 1 */
+  length?: number;
+  /** Description for the repair log @default `Applied <name>` */
+  description?: string;
+}
+
+/**
+ * A custom repair rule that hooks into the tokenizer (onChar) and the repair of unquoted tokens (onToken)
+ *
+ * @example
+ * ```ts
+ * const stripEot: CustomRepairRule = {
+ *   name: 'eot_token',
+ *   onChar: (char, { input, position }) =>
+ *     input.startsWith('<|eot_id|>', position) ? { replacement: '', length: 10 } : null,
+ * };
+ *
+ * const fatArrow: CustomRepairRule = {
+ *   name: 'fat_arrow',
+ *   onChar: (char, { input, position, inString }) =>
+ *     !inString && input.startsWith('=>', position) ? { replacement: ':', length: 2 } : null,
+ * };
+ *
+ * repairJson(text, { customRules: [stripEot, fatArrow] });
+ * ```
+ */
+export interface CustomRepairRule {
+  /** Repair type reported in repair logs */
+  name: string;
+  /** Called for each character outside comments (inside strings too, see `context.inString`) */
+  onChar?: (char: string, context: RepairRuleContext) => RepairRuleResult | null | undefined;
+  /** Called for each unquoted token (key, literal, number) before the built-in rules */
+  onToken?: (
+    token: string,
+    context: RepairRuleContext & { isKey: boolean }
+  ) => RepairRuleResult | null | undefined;
 }
 
 /**
@@ -76,12 +190,24 @@ export interface RepairRules {
 export interface RepairOptions {
   /** Whether to track and return repair logs @default false */
   trackRepairs?: boolean;
+  /** Base rule set; `rules` overrides individual rules on top of it @default DEFAULT_REPAIR_RULES */
+  preset?: RepairPreset;
   /** Which repair rules to apply @default all enabled */
   rules?: RepairRules;
+  /** Custom rules, tried in order before the built-in rules @default [] */
+  customRules?: CustomRepairRule[];
 }
 
 /**
- * Default repair rules - all enabled
+ * Options for formatRepairDiff
+ */
+export interface RepairDiffOptions {
+  /** Color hunk headers, removed and added lines with ANSI escapes @default false */
+  color?: boolean;
+}
+
+/**
+ * Default repair rules - all enabled but json5Escapes, which drops the backslash of an invalid escape (\d → d)
  */
 export const DEFAULT_REPAIR_RULES: Required<RepairRules> = {
   trailingComma: true,
@@ -91,8 +217,141 @@ export const DEFAULT_REPAIR_RULES: Required<RepairRules> = {
   unquotedKeys: true,
   invalidValues: true,
   unescapedNewlines: true,
+  closeTruncated: true,
+  pythonLiterals: true,
+  tuples: true,
+  hexNumbers: true,
+  leadingDecimalPoint: true,
+  trailingDecimalPoint: true,
+  plusSign: true,
+  backtickStrings: true,
+  hexEscapes: true,
+  json5Escapes: false,
+  missingCommas: true,
+  missingColons: true,
+  unescapedQuotes: true,
+  unicodePunctuation: true,
+  strayText: true,
+  unbalancedBrackets: true,
+};
+
+/**
+ * Named repair rule sets, from the safest to the most permissive
+ *
+ * - `strict`: lossless fixes only (trailing commas, comments, raw newlines in strings)
+ * - `lenient`: common LLM mistakes (quotes, unquoted keys, undefined/NaN, truncation, unbalanced brackets)
+ * - `json5`: exactly the JSON5 extensions (no truncation completion)
+ * - `python-ish`: Python dict/list reprs (True/None, tuples, single quotes)
+ * - `aggressive`: every rule (DEFAULT_REPAIR_RULES plus json5Escapes)
+ */
+export type RepairPreset = 'strict' | 'lenient' | 'json5' | 'python-ish' | 'aggressive';
+
+function enableRules(...enabled: Array<keyof RepairRules>): Required<RepairRules> {
+  const rules = { ...DEFAULT_REPAIR_RULES };
+  for (const rule of Object.keys(rules) as Array<keyof RepairRules>) {
+    rules[rule] = enabled.includes(rule);
+  }
+  return rules;
+}
+
+export const REPAIR_PRESETS: Record<RepairPreset, Required<RepairRules>> = {
+  strict: enableRules('trailingComma', 'singleLineComments', 'multiLineComments', 'unescapedNewlines'),
+  lenient: enableRules(
+    'trailingComma',
+    'singleQuotes',
+    'singleLineComments',
+    'multiLineComments',
+    'unquotedKeys',
+    'invalidValues',
+    'unescapedNewlines',
+    'closeTruncated',
+    'unbalancedBrackets'
+  ),
+  json5: enableRules(
+    'trailingComma',
+    'singleQuotes',
+    'singleLineComments',
+    'multiLineComments',
+    'unquotedKeys',
+    'invalidValues',
+    'hexNumbers',
+    'leadingDecimalPoint',
+    'trailingDecimalPoint',
+    'plusSign',
+    'hexEscapes',
+    'json5Escapes'
+  ),
+  'python-ish': enableRules(
+    'trailingComma',
+    'singleQuotes',
+    'unescapedNewlines',
+    'closeTruncated',
+    'pythonLiterals',
+    'tuples',
+    'hexNumbers',
+    'leadingDecimalPoint',
+    'trailingDecimalPoint',
+    'hexEscapes'
+  ),
+  aggressive: { ...DEFAULT_REPAIR_RULES, json5Escapes: true },
 };
 
+// ============================================================================
+// Extraction Configuration
+// ============================================================================
+
+/**
+ * A built-in extraction strategy name, or a custom extractor returning candidate strings
+ * - 'delimiters': text between the configured `delimiters`
+ * - 'xml': content of the configured `xmlTags` (nested tags, CDATA)
+ * - 'markdown': fenced code blocks
+ * - 'braces': balanced `{`/`[` regions and a truncated tail
+ */
+export type ExtractionStrategy =
+  | 'delimiters'
+  | 'xml'
+  | 'markdown'
+  | 'braces'
+  | ((text: string) => string[]);
+
+/**
+ * Which extraction strategy produced a candidate ('custom' for extractor functions)
+ */
+export type CandidateSource = 'delimiters' | 'xml' | 'markdown' | 'braces' | 'custom';
+
+/**
+ * Options controlling how JSON candidates are found in text
+ */
+export interface ExtractionOptions {
+  /**
+   * Extraction strategies in priority order (earlier candidates are tried first)
+   * @default ['delimiters', 'xml', 'markdown', 'braces']
+   */
+  strategies?: ExtractionStrategy[];
+
+  /**
+   * Tag names for the 'xml' strategy (case-insensitive)
+   * @default ['json', 'answer']
+   */
+  xmlTags?: string[];
+
+  /**
+   * Open/close delimiter pairs for the 'delimiters' strategy
+   * @example [['<<<JSON', 'JSON>>>']]
+   */
+  delimiters?: Array<[string, string]>;
+}
+
+/**
+ * Default extraction strategy order
+ */
+export const DEFAULT_EXTRACTION_STRATEGIES: ExtractionStrategy[] = [
+  'delimiters',
+  'xml',
+  'markdown',
+  'braces',
+];
+
 // ============================================================================
 // Loot Options
 // ============================================================================
@@ -100,7 +359,7 @@ export const DEFAULT_REPAIR_RULES: Required<RepairRules> = {
 /**
  * Configuration options for the loot function
  */
-export interface LootOptions {
+export interface LootOptions extends ExtractionOptions {
   /**
    * If true, returns null instead of throwing when no JSON is found
    * @default false
@@ -109,9 +368,10 @@ export interface LootOptions {
 
   /**
    * If true, attempts to repair malformed JSON
+   * A preset name selects the repair rules (see REPAIR_PRESETS)
    * @default true
    */
-  repair?: boolean;
+  repair?: boolean | RepairPreset;
 
   /**
    * If true, extracts all JSON objects found in the text
@@ -124,12 +384,27 @@ export interface LootOptions {
    * @default false
    */
   reportRepairs?: boolean;
+
+  /**
+   * If provided, only candidates that validate against this schema are returned.
+   * Useful when the model emits example objects before the real answer.
+   * Throws LootError with code 'VALIDATION_FAILED' when no candidate matches.
+   */
+  schema?: LootSchema;
+
+  /**
+   * If true, returns `{ result, repairs, sourceMap }` where `sourceMap` maps each
+   * JSON pointer in the result to its offset, line and column in the input text.
+   * In `all` mode pointers are prefixed with the result index (`/0/name`).
+   * @default false
+   */
+  sourceMap?: boolean;
 }
 
 /**
  * Configuration options for the lootField function
  */
-export interface LootFieldOptions {
+export interface LootFieldOptions extends ExtractionOptions {
   /**
    * If true, attempts to repair malformed JSON before extraction
    * @default true
@@ -149,6 +424,40 @@ export interface LootFieldOptions {
   all?: boolean;
 }
 
+/**
+ * Configuration options for the lootDocument function
+ */
+export interface LootDocumentOptions extends ExtractionOptions {
+  /**
+   * Indentation of values written into multi-line documents
+   * @default detected from the document ('  ' when it has no indented line)
+   */
+  indent?: string;
+}
+
+/**
+ * Configuration options for the lootToolCalls function
+ */
+export interface LootToolCallsOptions {
+  /**
+   * If true, attempts to repair malformed argument JSON
+   * @default true
+   */
+  repair?: boolean;
+
+  /**
+   * Per-tool argument schemas, keyed by tool name.
+   * Failures are reported in each call's `errors` (calls are never dropped).
+   */
+  schemas?: Record<string, LootSchema>;
+
+  /**
+   * If true, validates arguments in coerce mode (see `validate`)
+   * @default false
+   */
+  coerce?: boolean;
+}
+
 // ============================================================================
 // Loot Results
 // ============================================================================
@@ -168,6 +477,154 @@ export interface LootResultWithRepairs<T> {
   repairs: RepairLog[];
 }
 
+/**
+ * A tool call found by lootToolCalls
+ */
+export interface LootedToolCall<N extends string = string, A = unknown> {
+  /** Tool name */
+  name: N;
+  /**
+   * Parsed arguments.
+   * When `errors` is non-empty they may not match `A`
+   * (arguments that could not be parsed are kept as the raw string).
+   */
+  arguments: A;
+  /** Call id, when the source provides one */
+  id?: string;
+  /** Repairs applied while decoding the arguments */
+  repairs: RepairLog[];
+  /** Parse and schema validation errors (empty when valid) */
+  errors: ValidationError[];
+}
+
+/**
+ * Union of typed tool calls for a map of tool name to argument type
+ *
+ * @example
+ * ```ts
+ * type Calls = LootedToolCallOf<{ get_weather: { location: string }; search: { query: string } }>;
+ * ```
+ */
+export type LootedToolCallOf<Tools> = {
+  [K in keyof Tools & string]: LootedToolCall<K, Tools[K]>;
+}[keyof Tools & string];
+
+// ============================================================================
+// Source Maps
+// ============================================================================
+
+/**
+ * A position in the raw input text
+ */
+export interface SourcePosition {
+  /** 0-based character offset */
+  offset: number;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * Where a value (and its key, for object members) appears in the raw input
+ */
+export interface SourceSpan {
+  /** Start of the value */
+  start: SourcePosition;
+  /** End of the value (exclusive) */
+  end: SourcePosition;
+  /** Span of the property name, for object members */
+  key?: { start: SourcePosition; end: SourcePosition };
+}
+
+/**
+ * Spans keyed by JSON pointer ('' is the root, '/items/0/name' a nested value)
+ */
+export type SourceMap = Record<string, SourceSpan>;
+
+/**
+ * Result when the sourceMap option is enabled
+ */
+export interface LootResultWithSourceMap<T> extends LootResultWithRepairs<T> {
+  /** Spans of every value in `result` within the original input */
+  sourceMap: SourceMap;
+}
+
+// ============================================================================
+// Candidate Ranking
+// ============================================================================
+
+/**
+ * Signals that contribute to a candidate's score
+ */
+export type ScoreSignal =
+  | 'strategy'
+  | 'outermost'
+  | 'nested'
+  | 'size'
+  | 'repairs'
+  | 'truncated'
+  | 'final_marker'
+  | 'example_marker'
+  | 'schema_match'
+  | 'schema_mismatch'
+  | 'parse_failed';
+
+/**
+ * One scoring decision for a candidate
+ */
+export interface ScoreReason {
+  /** Signal that applied */
+  signal: ScoreSignal;
+  /** Points added (negative for penalties) */
+  score: number;
+  /** Human-readable explanation */
+  description: string;
+}
+
+/**
+ * A ranked JSON candidate returned by lootCandidates
+ */
+export interface LootCandidate<T = unknown> {
+  /** Candidate source text */
+  text: string;
+  /** Parsed value (undefined when parsing failed) */
+  value: T | undefined;
+  /** Whether the candidate parsed (possibly after repair) */
+  parsed: boolean;
+  /** Total score (higher is better) */
+  score: number;
+  /** Signals that made up the score */
+  reasons: ScoreReason[];
+  /** Repairs needed to parse the candidate */
+  repairs: RepairLog[];
+  /** Strategies that produced this candidate */
+  sources: CandidateSource[];
+  /** Offset of the candidate in the input (-1 if unknown) */
+  start: number;
+  /** End offset (exclusive, -1 if unknown) */
+  end: number;
+  /** Schema errors (only when a schema was given and did not match) */
+  validationErrors?: ValidationError[];
+}
+
+/**
+ * Configuration options for the lootCandidates function
+ */
+export interface LootCandidatesOptions extends ExtractionOptions {
+  /**
+   * If true, attempts to repair malformed JSON
+   * A preset name selects the repair rules (see REPAIR_PRESETS)
+   * @default true
+   */
+  repair?: boolean | RepairPreset;
+
+  /**
+   * If provided, candidates matching the schema are ranked first
+   */
+  schema?: LootSchema;
+}
+
 // ============================================================================
 // Errors
 // ============================================================================
@@ -180,7 +637,10 @@ export type LootErrorCode =
   | 'NO_JSON_FOUND'
   | 'PARSE_FAILED'
   | 'FIELD_NOT_FOUND'
-  | 'VALIDATION_FAILED';
+  | 'VALIDATION_FAILED'
+  | 'PROVIDER_ERROR'
+  | 'INVALID_PATH'
+  | 'UNSUPPORTED_RUNTIME';
 
 /**
  * Error thrown when JSON extraction fails
@@ -188,11 +648,20 @@ export type LootErrorCode =
 export class LootError extends Error {
   /** Error code for programmatic handling */
   readonly code: LootErrorCode;
+  /** Validation errors of every rejected candidate (only for 'VALIDATION_FAILED') */
+  readonly validationErrors?: ValidationError[];
 
-  constructor(message: string, code: LootErrorCode = 'PARSE_FAILED') {
+  constructor(
+    message: string,
+    code: LootErrorCode = 'PARSE_FAILED',
+    validationErrors?: ValidationError[]
+  ) {
     super(message);
     this.name = 'LootError';
     this.code = code;
+    if (validationErrors) {
+      this.validationErrors = validationErrors;
+    }
   }
 }
 
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { parseCst, printCst } from '../src';
+import type { CstArray, CstObject, CstScalar } from '../src';
+
+const corpus = [
+  '{"a": 1, "b": [true, null]}',
+  "{a: 'x' // note\n, /* c */ b: (1, 2,)}",
+  '{"a" 1 "b": {"c": [1 2}}} ;',
+  '\uff5b\u201ca\u201d\uff1a 1\uff0c\u201cb\u201d: undefined\uff5d',
+  'Text before {"a": "He said "hi" now"} after',
+  '{"a": [1, "cut',
+  '{"a": /* unterminated',
+  '',
+];
+
+describe('parseCst', () => {
+  it.each(corpus)('should print %j back unchanged', (text) => {
+    expect(printCst(parseCst(text))).toBe(text);
+  });
+
+  it('should build objects, members and items', () => {
+    const [object] = parseCst('{"a": [1, {"b": true}], c: "d"}').values as CstObject[];
+    const [a, c] = object.members;
+    const array = a.value as CstArray;
+
+    expect(object.members).toHaveLength(2);
+    expect(printCst(a)).toBe('"a": [1, {"b": true}],');
+    expect(a.comma?.text).toBe(',');
+    expect(array.items.map((item) => printCst(item.value!))).toEqual(['1', '{"b": true}']);
+    expect((c.key as CstScalar).token).toMatchObject({ kind: 'bare', text: 'c', start: 24, end: 25 });
+    expect((c.value as CstScalar).token).toMatchObject({ kind: 'string', quote: '"', closed: true });
+  });
+
+  it('should keep comments and whitespace as tokens', () => {
+    const [object] = parseCst('{ // one\n"a": 1 /* two */}').values as CstObject[];
+    const kinds = object.children.filter((child) => 'kind' in child).map((child) => 'kind' in child && child.kind);
+
+    expect(kinds).toEqual(['punctuation', 'whitespace', 'comment', 'whitespace', 'punctuation']);
+    expect(printCst(object.members[0])).toBe('"a": 1 /* two */');
+  });
+
+  it('should leave missing separators out of the tree', () => {
+    const [object] = parseCst('{"a" 1 "b": 2}').values as CstObject[];
+    const [a, b] = object.members;
+
+    expect(a.colon).toBeUndefined();
+    expect(a.comma).toBeUndefined();
+    expect(printCst(a.value!)).toBe('1');
+    expect(b.colon?.text).toBe(':');
+  });
+
+  it('should mark containers closed by an outer closer', () => {
+    const [object] = parseCst('{"a": [1, 2}').values as CstObject[];
+    const array = object.members[0].value as CstArray;
+
+    expect(array.unclosed).toBe('mismatch');
+    expect(array.close).toBeUndefined();
+    expect(object.close?.text).toBe('}');
+  });
+
+  it('should let a closer before a comma end the innermost container of a root value', () => {
+    const [object] = parseCst('{"a": [1, 2}, "b": 3}').values as CstObject[];
+    const array = object.members[0].value as CstArray;
+
+    expect(array.close?.text).toBe('}');
+    expect(array.unclosed).toBeUndefined();
+    expect(object.members.map((m) => printCst(m.value!))).toEqual(['[1, 2}', '3']);
+  });
+
+  it('should mark containers still open at the end of the input', () => {
+    const [object] = parseCst('{"a": (1, "x').values as CstObject[];
+    const tuple = object.members[0].value as CstArray;
+
+    expect(object.unclosed).toBe('eof');
+    expect(tuple).toMatchObject({ tuple: true, unclosed: 'eof' });
+    expect((tuple.items[1].value as CstScalar).token).toMatchObject({ text: '"x', closed: false });
+  });
+
+  it('should keep unmatched closers and unknown text as stray nodes', () => {
+    const document = parseCst('{"a": 1;}]');
+    const [object] = document.values as CstObject[];
+
+    expect(object.members[0].children.find((child) => 'type' in child && child.type === 'stray')).toMatchObject({
+      token: { kind: 'unknown', text: ';' },
+    });
+    expect(document.children[1]).toMatchObject({ type: 'stray', token: { kind: 'punctuation', symbol: ']' } });
+  });
+
+  it('should read full-width punctuation and smart quotes by their ASCII meaning', () => {
+    const [object] = parseCst('\uff5b\u201ca\u201d\uff1a 1\uff5d').values as CstObject[];
+
+    expect(object.open).toMatchObject({ text: '\uff5b', symbol: '{' });
+    expect(object.members[0].colon).toMatchObject({ text: '\uff1a', symbol: ':' });
+    expect(object.members[0].key?.token).toMatchObject({ text: '\u201ca\u201d', quote: '\u201c', closed: true });
+  });
+
+  it('should parse several root values', () => {
+    const document = parseCst('{"a": 1} [2] "three"');
+
+    expect(document.values.map((value) => value.type)).toEqual(['object', 'array', 'scalar']);
+  });
+});
@@ -0,0 +1,40 @@
+import { bench, describe } from 'vitest';
+import { scanBalancedRegions } from '../src';
+import {
+  deeplyNested,
+  flatArray,
+  legacyFindBalancedRegions,
+  legacyFindTruncatedStart,
+  truncated,
+} from './helpers/legacyExtractors';
+
+// Run with: npm run bench
+const MB = 1024 * 1024;
+
+const inputs = {
+  'flat array (2 MB)': flatArray(2 * MB),
+  'nested depth 50 (1 MB)': deeplyNested(MB),
+  'nested depth 50 (2 MB)': deeplyNested(2 * MB),
+  'truncated array (2 MB)': truncated(2 * MB),
+};
+
+for (const [name, text] of Object.entries(inputs)) {
+  describe(name, () => {
+    bench(
+      'single-pass scanBalancedRegions',
+      () => {
+        scanBalancedRegions(text, { nested: true });
+      },
+      { iterations: 3 }
+    );
+
+    bench(
+      'legacy per-start extractBalanced',
+      () => {
+        legacyFindBalancedRegions(text);
+        legacyFindTruncatedStart(text);
+      },
+      { iterations: 3 }
+    );
+  });
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { extractByBraces, extractTruncatedTail, loot, scanBalancedRegions } from '../src';
+import {
+  deeplyNested,
+  flatArray,
+  legacyFindBalancedRegions,
+  legacyFindTruncatedStart,
+  truncated,
+} from './helpers/legacyExtractors';
+
+describe('scanBalancedRegions', () => {
+  it('should return only outermost regions by default', () => {
+    const text = 'a {"x": {"y": [1, 2]}} b [3] c';
+
+    expect(scanBalancedRegions(text).regions).toEqual([
+      { start: 2, end: 22, text: '{"x": {"y": [1, 2]}}' },
+      { start: 25, end: 28, text: '[3]' },
+    ]);
+  });
+
+  it('should return nested regions ordered by start', () => {
+    const text = '{"x": {"y": [1, 2]}}';
+
+    expect(scanBalancedRegions(text, { nested: true }).regions.map((r) => r.text)).toEqual([
+      '{"x": {"y": [1, 2]}}',
+      '{"y": [1, 2]}',
+      '[1, 2]',
+    ]);
+  });
+
+  it('should ignore brackets inside strings and escaped quotes', () => {
+    const text = '{"a": "} ] \\" {"}';
+
+    expect(scanBalancedRegions(text, { nested: true }).regions.map((r) => r.text)).toEqual([text]);
+  });
+
+  it('should ignore quotes in prose outside regions', () => {
+    const text = 'A 5" screen: {"size": 5}';
+
+    expect(scanBalancedRegions(text).regions.map((r) => r.text)).toEqual(['{"size": 5}']);
+  });
+
+  it('should report the outermost unclosed start', () => {
+    const text = '{"done": 1} then {"a": [1, {"b": 2}], "c": "hel';
+
+    expect(scanBalancedRegions(text).truncatedStart).toBe(17);
+    expect(extractTruncatedTail(text)).toBe('{"a": [1, {"b": 2}], "c": "hel');
+  });
+
+  it('should close mismatched brackets at the nearest matching opener', () => {
+    const text = '{"a": [1, 2}, "b": 3}';
+
+    expect(scanBalancedRegions(text).regions.map((r) => r.text)).toEqual(['{"a": [1, 2}', text]);
+    expect(scanBalancedRegions(text).truncatedStart).toBe(-1);
+    expect(scanBalancedRegions('[{"a": 1]').regions.map((r) => r.text)).toEqual(['[{"a": 1]']);
+    expect(loot(text)).toEqual({ a: [1, 2], b: 3 });
+  });
+
+  it('should not count a mismatched region as open', () => {
+    const text = '{"a": [1, 2} and "quoted" {"b": 1} then {"c": [';
+
+    expect(scanBalancedRegions(text).regions.map((r) => r.text)).toEqual(['{"a": [1, 2}', '{"b": 1}']);
+    expect(scanBalancedRegions(text).truncatedStart).toBe(text.indexOf('{"c"'));
+  });
+
+  describe('compared to the previous implementation', () => {
+    const samples = [
+      '{"a": 1} {"b": [1, 2, {"c": 3}]}',
+      'Text ```json\n{"a": {"b": {"c": [1, [2, [3]]]}}}\n``` more',
+      '[{"a": "x"}, {"b": "y\\"}"}]',
+      '{"a": 1, "b": {"c": 2}, "d": "cut',
+      flatArray(4096),
+      deeplyNested(4096, 8),
+      truncated(4096),
+    ];
+
+    it('should find the same regions', () => {
+      for (const text of samples) {
+        expect(extractByBraces(text)).toEqual(legacyFindBalancedRegions(text).map((r) => r.text));
+      }
+    });
+
+    it('should find the same truncated start', () => {
+      for (const text of samples) {
+        expect(scanBalancedRegions(text).truncatedStart).toBe(legacyFindTruncatedStart(text));
+      }
+    });
+  });
+
+  // Timing is measured in extractors.bench.ts
+  it('should find every nested region of multi-megabyte input', () => {
+    const text = deeplyNested(2 * 1024 * 1024);
+    const units = text.split('{"value"').length - 1;
+    const { regions, truncatedStart } = scanBalancedRegions(text, { nested: true });
+
+    // The outer array, then each unit as the previous implementation finds it in a one-unit array
+    const unitRegions = legacyFindBalancedRegions(deeplyNested(1)).slice(1);
+    expect(regions.length).toBe(1 + units * unitRegions.length);
+    expect(regions.slice(1, 1 + unitRegions.length).map((r) => r.text)).toEqual(unitRegions.map((r) => r.text));
+    expect(regions[regions.length - 1].text).toBe(unitRegions[unitRegions.length - 1].text);
+    expect(truncatedStart).toBe(-1);
+  });
+});
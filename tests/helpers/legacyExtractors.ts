@@ -0,0 +1,107 @@
+/**
+ * Reference copy of the previous brace extraction (rescans from every '{' / '['),
+ * kept to check the single-pass scanner against it and to benchmark the two.
+ */
+
+export function legacyFindBalancedRegions(text: string): Array<{ start: number; text: string }> {
+  const results: Array<{ start: number; text: string }> = [];
+  const chars = text.split('');
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    if (char === '{' || char === '[') {
+      const extracted = extractBalanced(text, i, char === '{' ? ['{', '}'] : ['[', ']']);
+      if (extracted) {
+        results.push({ start: i, text: extracted });
+      }
+    }
+  }
+
+  return results;
+}
+
+export function legacyFindTruncatedStart(text: string): number {
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '{' || char === '[') {
+      if (!extractBalanced(text, i, char === '{' ? ['{', '}'] : ['[', ']'])) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+function extractBalanced(text: string, start: number, brackets: [string, string]): string | null {
+  const [open, close] = brackets;
+  let depth = 0;
+  let inString = false;
+  let escapeNext = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (escapeNext) {
+      escapeNext = false;
+      continue;
+    }
+
+    if (char === '\\' && inString) {
+      escapeNext = true;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = !inString;
+      continue;
+    }
+
+    if (!inString) {
+      if (char === open) {
+        depth++;
+      } else if (char === close) {
+        depth--;
+        if (depth === 0) {
+          return text.slice(start, i + 1);
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Input Generators
+// ============================================================================
+
+/**
+ * A long flat array of small objects
+ */
+export function flatArray(bytes: number): string {
+  const item = '{"id": 1, "name": "item", "tags": ["a", "b"], "meta": {"ok": true}}';
+  const count = Math.ceil(bytes / (item.length + 2));
+  return 'Here you go:\n[' + new Array(count).fill(item).join(', ') + ']\nDone.';
+}
+
+/**
+ * Repeated deeply nested objects
+ */
+export function deeplyNested(bytes: number, depth = 50): string {
+  const open = '{"child": '.repeat(depth);
+  const close = '}'.repeat(depth);
+  const unit = `${open}{"value": "leaf \\"quoted\\""}${close}`;
+  const count = Math.ceil(bytes / (unit.length + 2));
+  return '[' + new Array(count).fill(unit).join(', ') + ']';
+}
+
+/**
+ * A large array cut off mid-value (as with max_tokens)
+ */
+export function truncated(bytes: number): string {
+  const full = flatArray(bytes);
+  return full.slice(0, Math.floor(full.length * 0.9));
+}
@@ -1,5 +1,21 @@
 import { describe, it, expect, vi } from 'vitest';
-import { IncrementalLoot } from '../src';
+import { IncrementalLoot, LootError } from '../src';
+import type { IncrementalChunk, IncrementalEvent } from '../src';
+import { createIncrementalTransform } from '../src/node';
+
+async function* fromChunks(chunks: IncrementalChunk[]): AsyncGenerator<IncrementalChunk> {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of source) {
+    items.push(item);
+  }
+  return items;
+}
 
 describe('IncrementalLoot', () => {
   describe('basic parsing', () => {
@@ -429,4 +445,503 @@ describe('IncrementalLoot', () => {
       expect(callOrder.indexOf('fieldStart')).toBeLessThan(callOrder.indexOf('fieldComplete'));
     });
   });
+
+  describe('getSnapshot', () => {
+    it('should include a half-streamed string', () => {
+      const parser = new IncrementalLoot();
+
+      const result = parser.addChunk('{"emotion": "happy", "dialogue": "Hello, how ar');
+      const snapshot = result.getSnapshot();
+
+      expect(snapshot.data).toEqual({ emotion: 'happy', dialogue: 'Hello, how ar' });
+      expect(snapshot.complete).toBe(false);
+      expect(snapshot.pending).toEqual(['dialogue']);
+    });
+
+    it('should close a growing array of objects', () => {
+      const parser = new IncrementalLoot();
+
+      const result = parser.addChunk('{"choices": [{"text": "Yes"}, {"text": "N');
+      const snapshot = result.getSnapshot();
+
+      expect(snapshot.data).toEqual({ choices: [{ text: 'Yes' }, { text: 'N' }] });
+      expect(snapshot.pending).toEqual(['choices', 'choices[1]', 'choices[1].text']);
+    });
+
+    it('should mark a number that may still grow as pending', () => {
+      const parser = new IncrementalLoot();
+
+      const snapshot = parser.addChunk('Result: {"a": "x", "count": 4').getSnapshot();
+
+      expect(snapshot.data).toEqual({ a: 'x', count: 4 });
+      expect(snapshot.pending).toEqual(['count']);
+    });
+
+    it('should not include a key that is still being written', () => {
+      const parser = new IncrementalLoot();
+
+      const snapshot = parser.addChunk('{"a": 1, "dia').getSnapshot();
+
+      expect(snapshot.data).toEqual({ a: 1 });
+      expect(snapshot.pending).toEqual([]);
+    });
+
+    it('should return null data before JSON starts', () => {
+      const parser = new IncrementalLoot();
+
+      const snapshot = parser.addChunk('Sure, here it is: ').getSnapshot();
+
+      expect(snapshot).toEqual({ data: null, complete: false, pending: [] });
+    });
+
+    it('should return the final result once complete', () => {
+      const parser = new IncrementalLoot();
+
+      const snapshot = parser.addChunk('{"a": [1, 2]}').getSnapshot();
+
+      expect(snapshot).toEqual({ data: { a: [1, 2] }, complete: true, pending: [] });
+    });
+
+    it('should close open values even when repair is disabled', () => {
+      const parser = new IncrementalLoot({ repair: false });
+
+      const snapshot = parser.addChunk('{"a": {"b": [true, fal').getSnapshot();
+
+      expect(snapshot.data).toEqual({ a: { b: [true, false] } });
+      expect(snapshot.pending).toEqual(['a', 'a.b', 'a.b[1]']);
+    });
+
+    it('should not apply other repairs when repair is disabled', () => {
+      const parser = new IncrementalLoot({ repair: false });
+
+      expect(parser.addChunk('{"a": True, "b": "x" "c": 1').getSnapshot().data).toBeNull();
+    });
+  });
+
+  describe('nested field paths', () => {
+    it('should fire for dotted paths', () => {
+      const onFieldComplete = vi.fn();
+      const parser = new IncrementalLoot({
+        fields: ['response.dialogue'],
+        onFieldComplete,
+      });
+
+      parser.addChunk('{"response": {"dialogue": "Hi');
+      expect(onFieldComplete).not.toHaveBeenCalled();
+
+      const result = parser.addChunk('!", "emotion": "happy"}}');
+      expect(onFieldComplete).toHaveBeenCalledTimes(1);
+      expect(onFieldComplete).toHaveBeenCalledWith('response.dialogue', 'Hi!');
+      expect(result.getField('response.dialogue')).toBe('Hi!');
+    });
+
+    it('should fire for each wildcard match with the concrete path', () => {
+      const onFieldComplete = vi.fn();
+      const parser = new IncrementalLoot({
+        fields: ['actions[*].type'],
+        onFieldComplete,
+      });
+
+      parser.addChunk('{"actions": [{"type": "move", "x": 1}, {"ty');
+      expect(onFieldComplete).toHaveBeenCalledWith('actions[0].type', 'move');
+
+      parser.addChunk('pe": "jump"}]}');
+      expect(onFieldComplete).toHaveBeenCalledWith('actions[1].type', 'jump');
+      expect(onFieldComplete).toHaveBeenCalledTimes(2);
+    });
+
+    it('should support index and bracket paths', () => {
+      const parser = new IncrementalLoot({ fields: ['items[1]', 'meta["content-type"]'] });
+
+      const result = parser.addChunk(
+        '{"items": [10, 20, 30], "meta": {"content-type": "json"}}'
+      );
+
+      expect(result.getField('items[1]')).toBe(20);
+      expect(result.isFieldComplete('items[0]')).toBe(false);
+      expect(result.getField('meta["content-type"]')).toBe('json');
+    });
+
+    it('should support recursive paths', () => {
+      const onFieldComplete = vi.fn();
+      const parser = new IncrementalLoot({ fields: ['**.id'], onFieldComplete });
+
+      parser.addChunk('{"id": 1, "user": {"id": 2, "posts": [{"id": 3}]}}');
+
+      expect(onFieldComplete.mock.calls.map((c) => c[0])).toEqual([
+        'id',
+        'user.id',
+        'user.posts[0].id',
+      ]);
+    });
+
+    it('should complete nested primitives at every delimiter', () => {
+      const parser = new IncrementalLoot({ fields: ['a.b', 'a.c', 'a.d'] });
+
+      parser.addChunk('{"a": {"b": 1, "c": true ');
+      const result = parser.addChunk(', "d": null}}');
+
+      expect(result.getPartialResult()).toEqual({ 'a.b': 1, 'a.c': true, 'a.d': null });
+    });
+
+    it('should call onFieldStart with the nested path', () => {
+      const onFieldStart = vi.fn();
+      const parser = new IncrementalLoot({ fields: ['response.dialogue'], onFieldStart });
+
+      parser.addChunk('{"response": {"dialogue": "');
+
+      expect(onFieldStart).toHaveBeenCalledWith('response.dialogue');
+    });
+
+    it('should only track top-level fields when none specified', () => {
+      const parser = new IncrementalLoot();
+
+      const result = parser.addChunk('{"a": {"b": 1}, "c": [2]}');
+
+      expect(result.getCompletedFields()).toEqual(['a', 'c']);
+    });
+  });
+
+  describe('onValueChunk streaming', () => {
+    function collect(chunks: string[], fields?: string[]) {
+      const calls: Array<[string, string, boolean]> = [];
+      const parser = new IncrementalLoot({
+        fields,
+        onValueChunk: (field, chunk, complete) => calls.push([field, chunk, complete]),
+      });
+      for (const chunk of chunks) {
+        parser.addChunk(chunk);
+      }
+      return calls;
+    }
+
+    it('should emit string deltas before the closing quote', () => {
+      const calls = collect(['{"dialogue": "Hel', 'lo, wor', 'ld!"}'], ['dialogue']);
+
+      expect(calls).toEqual([
+        ['dialogue', 'Hel', false],
+        ['dialogue', 'lo, wor', false],
+        ['dialogue', 'ld!', true],
+      ]);
+    });
+
+    it('should resolve escape sequences', () => {
+      const calls = collect(['{"text": "a\\nb \\u00e9 \\"q\\""}'], ['text']);
+
+      expect(calls).toEqual([['text', 'a\nb é "q"', true]]);
+    });
+
+    it('should never split an escape across chunks', () => {
+      const calls = collect(['{"text": "x\\', 'ny\\u00', 'e9z"}'], ['text']);
+
+      expect(calls).toEqual([
+        ['text', 'x', false],
+        ['text', '\ny', false],
+        ['text', 'éz', true],
+      ]);
+    });
+
+    it('should never split a surrogate pair', () => {
+      const escaped = collect(['{"t": "a\\ud83d', '\\ude00b"}'], ['t']);
+      expect(escaped).toEqual([
+        ['t', 'a', false],
+        ['t', '😀b', true],
+      ]);
+
+      const emoji = '😀';
+      const raw = collect([`{"t": "a${emoji[0]}`, `${emoji[1]}b"}`], ['t']);
+      expect(raw).toEqual([
+        ['t', 'a', false],
+        ['t', '😀b', true],
+      ]);
+    });
+
+    it('should stream nested string paths', () => {
+      const calls = collect(['{"response": {"dialogue": "Hi', ' there"}}'], ['response.dialogue']);
+
+      expect(calls).toEqual([
+        ['response.dialogue', 'Hi', false],
+        ['response.dialogue', ' there', true],
+      ]);
+    });
+
+    it('should emit non-string values once as JSON', () => {
+      const calls = collect(['{"n": 42, "o": {"a": [1]}}'], ['n', 'o']);
+
+      expect(calls).toEqual([
+        ['n', '42', true],
+        ['o', '{"a":[1]}', true],
+      ]);
+    });
+
+    it('should not stream untracked fields', () => {
+      const calls = collect(['{"a": "x", "b": "y"}'], ['b']);
+
+      expect(calls).toEqual([['b', 'y', true]]);
+    });
+  });
+
+  describe('top-level arrays', () => {
+    it('should parse a streamed top-level array', () => {
+      const parser = new IncrementalLoot();
+
+      parser.addChunk('[{"id": 1}, ');
+      parser.addChunk('{"id": 2}]');
+
+      expect(parser.getResult()).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should emit each element as it completes', () => {
+      const onFieldComplete = vi.fn();
+      const parser = new IncrementalLoot({ onFieldComplete });
+
+      parser.addChunk('[{"id": 1}, {"id"');
+      expect(onFieldComplete).toHaveBeenCalledWith('[0]', { id: 1 });
+      expect(onFieldComplete).toHaveBeenCalledTimes(1);
+
+      parser.addChunk(': 2}, 3]');
+      expect(onFieldComplete).toHaveBeenCalledWith('[1]', { id: 2 });
+      expect(onFieldComplete).toHaveBeenCalledWith('[2]', 3);
+    });
+
+    it('should track element fields with wildcard paths', () => {
+      const onFieldComplete = vi.fn();
+      const parser = new IncrementalLoot({ fields: ['[*].name'], onFieldComplete });
+
+      parser.addChunk('[{"name": "a"}, {"name": "b"}]');
+
+      expect(onFieldComplete.mock.calls).toEqual([
+        ['[0].name', 'a'],
+        ['[1].name', 'b'],
+      ]);
+    });
+
+    it('should skip bracketed prose before the JSON', () => {
+      const parser = new IncrementalLoot();
+
+      parser.addChunk('[Note] Here is the answer: {"ok": true}');
+
+      expect(parser.getResult()).toEqual({ ok: true });
+    });
+
+    it('should skip citations in prose before the JSON', () => {
+      const onError = vi.fn();
+      const parser = new IncrementalLoot({ onError });
+
+      parser.addChunk('Step [1] then [2, 3] ');
+      parser.addChunk('{"a": 1}');
+
+      expect(parser.getResult()).toEqual({ a: 1 });
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should start with an array of scalars when no prose comes before it', () => {
+      const parser = new IncrementalLoot();
+
+      parser.addChunk('\n[1, 2]');
+
+      expect(parser.getResult()).toEqual([1, 2]);
+    });
+
+    it('should wait for the character after a trailing [', () => {
+      const parser = new IncrementalLoot();
+
+      parser.addChunk('Result: [');
+      parser.addChunk('{"a": 1}]');
+
+      expect(parser.getResult()).toEqual([{ a: 1 }]);
+    });
+
+    it('should ignore text after the root value', () => {
+      const parser = new IncrementalLoot();
+
+      parser.addChunk('{"a": 1} and {"b": 2}');
+
+      expect(parser.getResult()).toEqual({ a: 1 });
+    });
+  });
+
+  describe('multiple mode', () => {
+    it('should emit each root value with onDocument', () => {
+      const onDocument = vi.fn();
+      const parser = new IncrementalLoot({ multiple: true, onDocument });
+
+      parser.addChunk('{"name": "search", "args": {"q": "x"}}\n{"name": "ca');
+      expect(onDocument).toHaveBeenCalledTimes(1);
+      expect(onDocument).toHaveBeenCalledWith({ name: 'search', args: { q: 'x' } }, 0);
+
+      parser.addChunk('lc", "args": {"expr": "1+1"}}\n[1, 2]\n');
+      expect(onDocument).toHaveBeenCalledTimes(3);
+      expect(onDocument).toHaveBeenCalledWith({ name: 'calc', args: { expr: '1+1' } }, 1);
+      expect(onDocument).toHaveBeenCalledWith([1, 2], 2);
+
+      expect(parser.getDocuments()).toHaveLength(3);
+      expect(parser.getResult()).toEqual([1, 2]);
+    });
+
+    it('should fire field callbacks again for every document', () => {
+      const onFieldComplete = vi.fn();
+      const parser = new IncrementalLoot({ multiple: true, fields: ['name'], onFieldComplete });
+
+      parser.addChunk('{"name": "a"}{"name": "b"}');
+
+      expect(onFieldComplete.mock.calls).toEqual([
+        ['name', 'a'],
+        ['name', 'b'],
+      ]);
+    });
+
+    it('should not call onComplete and should drop finished documents from the buffer', () => {
+      const onComplete = vi.fn();
+      const parser = new IncrementalLoot({ multiple: true, onComplete });
+
+      const result = parser.addChunk('{"a": 1}\n{"b": ');
+
+      expect(onComplete).not.toHaveBeenCalled();
+      expect(result.isComplete()).toBe(false);
+      expect(result.getBuffer()).toBe('{"b": ');
+    });
+
+    it('should clear documents on reset', () => {
+      const parser = new IncrementalLoot({ multiple: true });
+
+      parser.addChunk('{"a": 1}');
+      parser.reset();
+
+      expect(parser.getDocuments()).toEqual([]);
+    });
+  });
+
+  describe('stream adapters', () => {
+    it('should yield typed events from an async iterable', async () => {
+      const events = await collect(
+        IncrementalLoot.fromAsyncIterable(fromChunks(['{"name": "Lo', 'ot", "n": 1}']), {
+          fields: ['name', 'n'],
+        })
+      );
+      const types = events.map((e) => e.type).filter((t) => t !== 'progress');
+
+      expect(types).toEqual([
+        'fieldStart',
+        'valueChunk',
+        'valueChunk',
+        'fieldComplete',
+        'fieldStart',
+        'fieldComplete',
+        'valueChunk',
+        'complete',
+      ]);
+      expect(events).toContainEqual({ type: 'complete', result: { name: 'Loot', n: 1 } });
+    });
+
+    it('should still call the user callbacks', async () => {
+      const onFieldComplete = vi.fn();
+
+      await collect(IncrementalLoot.fromAsyncIterable(fromChunks(['{"a": 1}']), { onFieldComplete }));
+
+      expect(onFieldComplete).toHaveBeenCalledWith('a', 1);
+    });
+
+    it('should decode UTF-8 bytes split across chunks', async () => {
+      const bytes = new TextEncoder().encode('{"name": "홍길동"}');
+      const events = await collect(
+        IncrementalLoot.fromAsyncIterable(fromChunks([bytes.slice(0, 12), bytes.slice(12)]))
+      );
+
+      expect(events.find((e) => e.type === 'complete')).toEqual({
+        type: 'complete',
+        result: { name: '홍길동' },
+      });
+    });
+
+    it('should stop reading once the document is complete', async () => {
+      let pulled = 0;
+      async function* source(): AsyncGenerator<string> {
+        for (const chunk of ['{"a": 1}', 'trailing', 'text']) {
+          pulled++;
+          yield chunk;
+        }
+      }
+
+      await collect(IncrementalLoot.fromAsyncIterable(source()));
+
+      expect(pulled).toBe(1);
+    });
+
+    it('should yield an error when the stream ends early', async () => {
+      const events = await collect(IncrementalLoot.fromAsyncIterable(fromChunks(['{"a": 1, "b": '])));
+      const last = events[events.length - 1];
+
+      expect(last.type).toBe('error');
+      expect(last.type === 'error' && last.error).toBeInstanceOf(LootError);
+    });
+
+    it('should yield an error when the source throws', async () => {
+      async function* failing(): AsyncGenerator<string> {
+        yield '{"a": ';
+        throw new Error('connection reset');
+      }
+
+      const events = await collect(IncrementalLoot.fromAsyncIterable(failing()));
+
+      expect(events[events.length - 1]).toEqual({ type: 'error', error: new Error('connection reset') });
+    });
+
+    it('should yield document events in multiple mode', async () => {
+      const events = await collect(
+        IncrementalLoot.fromAsyncIterable(fromChunks(['{"a": 1}\n{"a"', ': 2}\n']), { multiple: true })
+      );
+      const documents = events.filter((e) => e.type === 'document');
+
+      expect(documents).toEqual([
+        { type: 'document', document: { a: 1 }, index: 0 },
+        { type: 'document', document: { a: 2 }, index: 1 },
+      ]);
+      expect(events.some((e) => e.type === 'error')).toBe(false);
+    });
+
+    it('should transform chunks through a TransformStream', async () => {
+      const readable = new ReadableStream<IncrementalChunk>({
+        start(controller) {
+          controller.enqueue('{"dialogue": ');
+          controller.enqueue('"Hi"}');
+          controller.close();
+        },
+      });
+
+      const transform = IncrementalLoot.toTransformStream({ fields: ['dialogue'] });
+      const events = await collect(
+        readable.pipeThrough(transform as TransformStream<IncrementalChunk, IncrementalEvent>)
+      );
+
+      expect(events).toContainEqual({ type: 'fieldComplete', field: 'dialogue', value: 'Hi' });
+      expect(events).toContainEqual({ type: 'complete', result: { dialogue: 'Hi' } });
+    });
+
+    it('should throw a LootError when TransformStream is not available', () => {
+      vi.stubGlobal('TransformStream', undefined);
+      try {
+        expect(() => IncrementalLoot.toTransformStream()).toThrow(
+          expect.objectContaining({ name: 'LootError', code: 'UNSUPPORTED_RUNTIME' })
+        );
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should transform chunks through a Node Transform', async () => {
+      const transform = createIncrementalTransform({ fields: ['dialogue'] });
+      const events: IncrementalEvent[] = [];
+      transform.on('data', (event: IncrementalEvent) => events.push(event));
+
+      const done = new Promise((resolve) => transform.on('end', resolve));
+      transform.write(Buffer.from('{"dialogue": '));
+      transform.write('"Hi"}');
+      transform.end();
+      await done;
+
+      expect(events).toContainEqual({ type: 'fieldComplete', field: 'dialogue', value: 'Hi' });
+      expect(events).toContainEqual({ type: 'complete', result: { dialogue: 'Hi' } });
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { loot, LootError, isLootError } from '../src';
+import { loot, LootError, isLootError, extractFromXmlTags, extractByDelimiters } from '../src';
 
 describe('loot', () => {
   describe('basic parsing', () => {
@@ -65,6 +65,11 @@ Here's the data:
       expect(result).toEqual({ name: 'test' });
     });
 
+    it('should keep apostrophes inside single-quoted values', () => {
+      expect(loot("{'name': 'O'Brien', 'age': 3}")).toEqual({ name: "O'Brien", age: 3 });
+      expect(loot("{'a': 'it's'}")).toEqual({ a: "it's" });
+    });
+
     it('should remove single-line comments', () => {
       const result = loot('{"name": "test" // this is a comment\n}');
       expect(result).toEqual({ name: 'test' });
@@ -106,6 +111,31 @@ World"}`);
     });
   });
 
+  describe('truncated output', () => {
+    it('should recover JSON cut off mid-stream', () => {
+      const text = 'Here you go:\n{"name": "sword", "stats": {"damage": 50}, "tags": ["sharp", "ste';
+      expect(loot(text)).toEqual({
+        name: 'sword',
+        stats: { damage: 50 },
+        tags: ['sharp', 'ste'],
+      });
+    });
+
+    it('should prefer a complete object before the truncated one', () => {
+      expect(loot('{"a": 1} then {"b": [2')).toEqual({ a: 1 });
+    });
+
+    it('should report the truncated_close repair', () => {
+      const { result, repairs } = loot('{"a": 1, "b": "x', { reportRepairs: true });
+      expect(result).toEqual({ a: 1, b: 'x' });
+      expect(repairs.some((r) => r.type === 'truncated_close')).toBe(true);
+    });
+
+    it('should not complete truncated JSON when repair is disabled', () => {
+      expect(loot('{"a": 1, "b": [1', { repair: false, silent: true })).toBeNull();
+    });
+  });
+
   describe('all option', () => {
     it('should extract all JSON objects', () => {
       const text = '{"a": 1} some text {"b": 2} more text {"c": 3}';
@@ -165,6 +195,180 @@ World"}`);
       expect(repairs.some((r) => r.type === 'single_quote')).toBe(true);
       expect(repairs.some((r) => r.type === 'single_line_comment')).toBe(true);
     });
+
+    it('should accept smart quotes from chat UIs', () => {
+      const { result, repairs } = loot('Sure! {\u201cname\u201d\uff1a \u201csword\u201d}', { reportRepairs: true });
+      expect(result).toEqual({ name: 'sword' });
+      expect(repairs.every((r) => r.type === 'unicode_punctuation')).toBe(true);
+    });
+
+    it('should accept a JSON5 document with the json5 preset', () => {
+      const text = [
+        '```json5',
+        '{',
+        '  // JSON5 allows comments',
+        "  unquoted: 'and you can quote me on that',",
+        '  singleQuotes: \'I can use "double quotes" here\',',
+        '  lineBreaks: "Look, Mom! \\',
+        'No \\\\n\'s!",',
+        '  hexadecimal: 0xdecaf,',
+        '  leadingDecimalPoint: .8675309, andTrailing: 8675309.,',
+        '  positiveSign: +1,',
+        '  trailingComma: \'in objects\', andIn: [\'arrays\',],',
+        '  "backwardsCompatible": "with JSON",',
+        '}',
+        '```',
+      ].join('\n');
+
+      expect(loot(text, { repair: 'json5' })).toEqual({
+        unquoted: 'and you can quote me on that',
+        singleQuotes: 'I can use "double quotes" here',
+        lineBreaks: "Look, Mom! No \\n's!",
+        hexadecimal: 0xdecaf,
+        leadingDecimalPoint: 0.8675309,
+        andTrailing: 8675309,
+        positiveSign: 1,
+        trailingComma: 'in objects',
+        andIn: ['arrays'],
+        backwardsCompatible: 'with JSON',
+      });
+    });
+  });
+
+  describe('schema option', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        answer: { type: 'string' as const },
+        confidence: { type: 'number' as const },
+      },
+      required: ['answer', 'confidence'],
+    };
+
+    it('should skip candidates that do not match the schema', () => {
+      const text = 'Example: {"foo": "bar"}\nFinal: {"answer": "42", "confidence": 0.9}';
+      expect(loot(text, { schema })).toEqual({ answer: '42', confidence: 0.9 });
+    });
+
+    it('should return the first parse when it matches', () => {
+      const text = '{"answer": "a", "confidence": 1} {"answer": "b", "confidence": 2}';
+      expect(loot(text, { schema })).toEqual({ answer: 'a', confidence: 1 });
+    });
+
+    it('should throw VALIDATION_FAILED with aggregated errors when nothing matches', () => {
+      try {
+        loot('{"foo": 1} {"answer": 5}', { schema });
+        expect.unreachable();
+      } catch (error) {
+        expect(isLootError(error)).toBe(true);
+        if (isLootError(error)) {
+          expect(error.code).toBe('VALIDATION_FAILED');
+          expect(error.validationErrors?.some((e) => e.keyword === 'required')).toBe(true);
+          expect(error.validationErrors?.some((e) => e.keyword === 'type')).toBe(true);
+        }
+      }
+    });
+
+    it('should still throw NO_JSON_FOUND when nothing parses', () => {
+      expect(() => loot('no json here', { schema })).toThrow('No valid JSON');
+    });
+
+    it('should return null in silent mode when nothing matches', () => {
+      expect(loot('{"foo": 1}', { schema, silent: true })).toBeNull();
+    });
+
+    it('should filter candidates in all mode', () => {
+      const text = '{"foo": 1} {"answer": "x", "confidence": 1} {"answer": "y", "confidence": 2}';
+      expect(loot(text, { schema, all: true })).toEqual([
+        { answer: 'x', confidence: 1 },
+        { answer: 'y', confidence: 2 },
+      ]);
+    });
+
+    it('should only report repairs of the selected candidate', () => {
+      const text = '{"foo": 1,} {"answer": "x", "confidence": 1}';
+      const { result, repairs } = loot(text, { schema, reportRepairs: true });
+      expect(result).toEqual({ answer: 'x', confidence: 1 });
+      expect(repairs).toEqual([]);
+    });
+  });
+
+  describe('extraction strategies', () => {
+    it('should prefer <answer> tags over earlier examples', () => {
+      const text = `Format: \`\`\`json
+{"answer": "example"}
+\`\`\`
+<answer>{"answer": "real"}</answer>`;
+
+      expect(loot(text)).toEqual({ answer: 'real' });
+    });
+
+    it('should use custom tag names', () => {
+      const text = '{"a": 0} <result>{"a": 1}</result>';
+
+      expect(loot(text)).toEqual({ a: 0 });
+      expect(loot(text, { xmlTags: ['result'] })).toEqual({ a: 1 });
+    });
+
+    it('should use custom delimiters', () => {
+      const text = '{"a": 0}\n<<<JSON\n{"a": 1}\nJSON>>>';
+
+      expect(loot(text, { delimiters: [['<<<JSON', 'JSON>>>']] })).toEqual({ a: 1 });
+    });
+
+    it('should follow the configured strategy order', () => {
+      const text = '{"a": 0} <json>{"a": 1}</json>';
+
+      expect(loot(text, { strategies: ['braces', 'xml'] })).toEqual({ a: 0 });
+      expect(loot(text, { strategies: ['xml', 'braces'] })).toEqual({ a: 1 });
+      expect(loot(text, { strategies: ['markdown'], silent: true })).toBeNull();
+    });
+
+    it('should accept custom extractor functions', () => {
+      const text = 'RESULT=[1, 2, 3] {"a": 0}';
+      const extractor = (input: string) => input.match(/RESULT=(\S.*?\])/)?.slice(1) ?? [];
+
+      expect(loot(text, { strategies: [extractor, 'braces'] })).toEqual([1, 2, 3]);
+    });
+
+    describe('extractFromXmlTags', () => {
+      it('should return the innermost nested tag', () => {
+        expect(extractFromXmlTags('<answer>Sure: <json>{"a": 1}</json></answer>')).toEqual(['{"a": 1}']);
+      });
+
+      it('should match nested tags with the same name', () => {
+        const text = '<json><json>{"a": 1}</json></json>';
+
+        expect(extractFromXmlTags(text)).toEqual(['{"a": 1}']);
+      });
+
+      it('should unwrap CDATA and ignore tags inside it', () => {
+        const text = '<json><![CDATA[{"html": "</json>"}]]></json>';
+
+        expect(extractFromXmlTags(text)).toEqual(['{"html": "</json>"}']);
+      });
+
+      it('should accept attributes and any case', () => {
+        expect(extractFromXmlTags('<ANSWER format="json">[1]</ANSWER>')).toEqual(['[1]']);
+      });
+
+      it('should narrow prose and fenced blocks inside tags', () => {
+        expect(extractFromXmlTags('<answer>Here you go: {"a": 1} done</answer>')).toEqual(['{"a": 1}']);
+        expect(extractFromXmlTags('<answer>\n```json\n{"a": 1}\n```\n</answer>')).toEqual(['{"a": 1}']);
+      });
+
+      it('should return the content of an unclosed tag', () => {
+        expect(extractFromXmlTags('<json>{"a": 1, "b": ')).toEqual(['{"a": 1, "b":']);
+      });
+    });
+
+    describe('extractByDelimiters', () => {
+      it('should extract every delimited section', () => {
+        const text = '### {"a": 1} ### text ### {"a": 2} ###';
+
+        expect(extractByDelimiters(text, [['###', '###']])).toEqual(['{"a": 1}', '{"a": 2}']);
+      });
+    });
   });
 
   describe('error handling with isLootError', () => {
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { loot, lootCandidates } from '../src';
+import type { LootSchema } from '../src';
+
+describe('lootCandidates', () => {
+  it('should rank the outermost value above nested ones', () => {
+    const [best, nested] = lootCandidates('{"user": {"name": "A"}}');
+
+    expect(best.value).toEqual({ user: { name: 'A' } });
+    expect(best.reasons.map((r) => r.signal)).toContain('outermost');
+    expect(nested.value).toEqual({ name: 'A' });
+    expect(nested.reasons.map((r) => r.signal)).toContain('nested');
+    expect(best.score).toBeGreaterThan(nested.score);
+  });
+
+  it('should not repair values nested in a candidate that parsed', () => {
+    const [best, ...nested] = lootCandidates("{'user': {'name': 'A'}, 'ids': [1, 2,]}");
+
+    expect(best.value).toEqual({ user: { name: 'A' }, ids: [1, 2] });
+    expect(nested.map((c) => [c.text, c.parsed, c.repairs])).toEqual([
+      ["{'name': 'A'}", false, []],
+      ['[1, 2,]', false, []],
+    ]);
+    expect(lootCandidates('{"user": {"name": "A"}')[1]).toMatchObject({ value: { name: 'A' }, parsed: true });
+  });
+
+  it('should report offsets and sources', () => {
+    const text = 'Result:\n```json\n{"a": 1}\n```';
+    const [best] = lootCandidates(text);
+
+    expect(best.sources).toEqual(['markdown', 'braces']);
+    expect(text.slice(best.start, best.end)).toBe('{"a": 1}');
+  });
+
+  it('should score candidates by the order of the strategies that found them', () => {
+    const text = '```json\n{"a": 1}\n``` <json>{"b": 2}</json>';
+    const [tagged, fenced] = lootCandidates(text);
+
+    expect(tagged.value).toEqual({ b: 2 });
+    expect(tagged.reasons).toContainEqual({ signal: 'strategy', score: 40, description: 'Found by the xml strategy' });
+    expect(fenced.reasons).toContainEqual(expect.objectContaining({ signal: 'strategy', score: 20 }));
+    expect(lootCandidates(text, { strategies: ['markdown', 'xml'] })[0].value).toEqual({ a: 1 });
+  });
+
+  it('should prefer candidates that need fewer repairs', () => {
+    const [best] = lootCandidates("{'a': 1, b: undefined,} {\"c\": 2}");
+
+    expect(best.value).toEqual({ c: 2 });
+  });
+
+  it('should penalize values introduced as examples', () => {
+    const text = 'For example: {"answer": "x"}\nSo here is the final answer: {"answer": "y"}';
+    const ranked = lootCandidates(text);
+
+    expect(ranked[0].value).toEqual({ answer: 'y' });
+    expect(ranked[0].reasons.map((r) => r.signal)).toContain('final_marker');
+    expect(ranked[1].reasons.map((r) => r.signal)).toContain('example_marker');
+  });
+
+  it('should rank schema matches first and keep validation errors', () => {
+    const schema: LootSchema = { type: 'object', required: ['id'] };
+    const ranked = lootCandidates('```json\n{"name": "x"}\n``` {"id": 1}', { schema });
+
+    expect(ranked[0].value).toEqual({ id: 1 });
+    expect(ranked[1].validationErrors?.[0].keyword).toBe('required');
+  });
+
+  it('should list unparseable candidates last', () => {
+    const ranked = lootCandidates('{"a": 1} [not json]', { repair: false });
+
+    expect(ranked[ranked.length - 1]).toMatchObject({ text: '[not json]', parsed: false });
+  });
+
+  it('should return an empty array for empty input', () => {
+    expect(lootCandidates('')).toEqual([]);
+  });
+});
+
+describe('loot ranking', () => {
+  it('should pick the fenced answer over an inline example', () => {
+    const text = 'Use a shape like {"name": "?"}.\n```json\n{"name": "sword", "damage": 50}\n```';
+
+    expect(loot(text)).toEqual({ name: 'sword', damage: 50 });
+  });
+
+  it('should pick the final answer after a worked example', () => {
+    const text = 'Example: {"answer": 1}\nFinal answer: {"answer": 2}';
+
+    expect(loot(text)).toEqual({ answer: 2 });
+  });
+
+  it('should keep document order in all mode', () => {
+    expect(loot('Example: {"a": 1} then {"a": 2}', { all: true })).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { lootDocument, LootError } from '../src';
+
+const config = '{\n  // retries before giving up\n  "retries": 3, // per request\n  "hosts": ["a", "b"]\n}';
+
+describe('lootDocument', () => {
+  describe('reading', () => {
+    it('should read values by lootField path', () => {
+      const doc = lootDocument(config);
+
+      expect(doc.get('retries')).toBe(3);
+      expect(doc.get('hosts[-1]')).toBe('b');
+      expect(doc.get('missing')).toBeUndefined();
+      expect(doc.has('hosts[1]')).toBe(true);
+    });
+
+    it('should read repaired values', () => {
+      const doc = lootDocument("{a: 'x', b: [1, 2,], c: True}");
+
+      expect(doc.toJSON()).toEqual({ a: 'x', b: [1, 2], c: true });
+      expect(doc.get('')).toEqual({ a: 'x', b: [1, 2], c: true });
+    });
+
+    it('should loot the document out of surrounding text', () => {
+      const doc = lootDocument('Here you go:\n```json\n{"a": 1}\n```\nDone.');
+
+      expect(doc.toString()).toBe('{"a": 1}');
+    });
+
+    it('should keep comments around a single root value', () => {
+      const text = '// header\n{"a": 1}\n// footer\n';
+
+      expect(lootDocument(text).toString()).toBe(text);
+    });
+
+    it('should throw on empty input or when no JSON is found', () => {
+      expect(() => lootDocument('')).toThrow(LootError);
+      expect(() => lootDocument('no json here')).toThrow(expect.objectContaining({ code: 'NO_JSON_FOUND' }));
+    });
+  });
+
+  describe('set', () => {
+    it('should replace a value and keep everything else', () => {
+      const doc = lootDocument(config).set('retries', 5);
+
+      expect(doc.toString()).toBe(config.replace('3', '5'));
+    });
+
+    it('should add keys in the document indentation', () => {
+      const doc = lootDocument(config).set('backoff.base', 100);
+
+      expect(doc.toString()).toBe(
+        '{\n  // retries before giving up\n  "retries": 3, // per request\n  "hosts": ["a", "b"],\n' +
+          '  "backoff": {\n    "base": 100\n  }\n}'
+      );
+    });
+
+    it('should add keys inline to single-line objects', () => {
+      expect(lootDocument('{"a": 1}').set('b', { c: [1, 2] }).toString()).toBe('{"a": 1, "b": {"c": [1, 2]}}');
+      expect(lootDocument('{}').set('a', 1).toString()).toBe('{"a": 1}');
+    });
+
+    it('should add a comma after a trailing comment', () => {
+      const doc = lootDocument('{\n  "a": 1 // one\n}').set('b', 2);
+
+      expect(doc.toString()).toBe('{\n  "a": 1, // one\n  "b": 2\n}');
+    });
+
+    it('should start a new line after a line comment on the last entry', () => {
+      const doc = lootDocument('{"a": 1 // c\n}').set('b', 2);
+
+      expect(doc.toString()).toBe('{"a": 1, // c\n  "b": 2\n}');
+      expect(lootDocument(doc.toString()).get('b')).toBe(2);
+      expect(lootDocument('[1 // c\n]').set('[1]', 2).toString()).toBe('[1, // c\n  2\n]');
+    });
+
+    it('should append to arrays at their length', () => {
+      const doc = lootDocument('[1, 2]').set('[2]', 3);
+
+      expect(doc.toString()).toBe('[1, 2, 3]');
+      expect(() => doc.set('[5]', 6)).toThrow(expect.objectContaining({ code: 'INVALID_PATH' }));
+    });
+
+    it('should use the indent option for new values', () => {
+      const doc = lootDocument('{\n}', { indent: '\t' }).set('a', [1]);
+
+      expect(doc.toString()).toBe('{\n\t"a": [\n\t\t1\n\t]\n}');
+    });
+
+    it('should reject wildcard paths and missing arrays', () => {
+      const doc = lootDocument('{"a": {}}');
+
+      expect(() => doc.set('a[*]', 1)).toThrow(expect.objectContaining({ code: 'INVALID_PATH' }));
+      expect(() => doc.set('a.b[0]', 1)).toThrow(expect.objectContaining({ code: 'INVALID_PATH' }));
+      expect(() => doc.set('a.b', 1).set('a.b.c', 2)).toThrow(expect.objectContaining({ code: 'INVALID_PATH' }));
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove an entry with its line comment', () => {
+      const doc = lootDocument(config);
+
+      expect(doc.delete('retries')).toBe(true);
+      expect(doc.toString()).toBe('{\n  // retries before giving up\n  "hosts": ["a", "b"]\n}');
+    });
+
+    it('should drop the comma before a removed last entry', () => {
+      const doc = lootDocument(config);
+
+      doc.delete('hosts');
+      expect(doc.toString()).toBe('{\n  // retries before giving up\n  "retries": 3 // per request\n}');
+      expect(doc.toJSON()).toEqual({ retries: 3 });
+    });
+
+    it('should remove array items', () => {
+      const doc = lootDocument('{"a": [1, 2, 3]}');
+
+      doc.delete('a[0]');
+      doc.delete('a[-1]');
+      expect(doc.toString()).toBe('{"a": [2]}');
+    });
+
+    it('should return false for missing entries', () => {
+      expect(lootDocument('{"a": 1}').delete('b.c')).toBe(false);
+    });
+  });
+});
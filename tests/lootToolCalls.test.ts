@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import { lootToolCalls } from '../src';
+import type { LootSchema } from '../src';
+
+describe('lootToolCalls', () => {
+  const weatherSchema: LootSchema = {
+    type: 'object',
+    properties: {
+      location: { type: 'string' },
+      days: { type: 'integer' },
+    },
+    required: ['location'],
+  };
+
+  describe('text input', () => {
+    it('should extract <tool_call> blocks', () => {
+      const text = `I'll check that.
+<tool_call>
+{"name": "get_weather", "arguments": {"location": "Seoul"}}
+</tool_call>
+<tool_call>
+{"name": "get_time", "arguments": {"zone": "KST"}}
+</tool_call>`;
+
+      const calls = lootToolCalls(text);
+
+      expect(calls.map((c) => [c.name, c.arguments])).toEqual([
+        ['get_weather', { location: 'Seoul' }],
+        ['get_time', { zone: 'KST' }],
+      ]);
+    });
+
+    it('should decode stringified arguments', () => {
+      const text = '{"name": "get_weather", "arguments": "{\\"location\\": \\"Seoul\\"}"}';
+
+      expect(lootToolCalls(text)[0].arguments).toEqual({ location: 'Seoul' });
+    });
+
+    it('should decode double-stringified arguments', () => {
+      const args = JSON.stringify(JSON.stringify({ location: 'Seoul' }));
+      const text = JSON.stringify({ name: 'get_weather', arguments: JSON.parse(args) });
+
+      expect(lootToolCalls(text)[0].arguments).toEqual({ location: 'Seoul' });
+    });
+
+    it('should repair malformed arguments and report repairs', () => {
+      const text = '<tool_call>{"name": "get_weather", "arguments": "{location: \'Seoul\',}"}</tool_call>';
+
+      const [call] = lootToolCalls(text);
+
+      expect(call.arguments).toEqual({ location: 'Seoul' });
+      expect(call.repairs.map((r) => r.type)).toContain('unquoted_key');
+    });
+
+    it('should report repairs of tool calls found in text', () => {
+      const text =
+        '<tool_call>{"name": "get_weather", "arguments": {"location": "Paris", days: "3",}}</tool_call>';
+
+      const [call] = lootToolCalls(text);
+
+      expect(call.arguments).toEqual({ location: 'Paris', days: '3' });
+      expect(call.repairs.map((r) => r.type)).toEqual(['unquoted_key', 'trailing_comma']);
+    });
+
+    it('should handle an unclosed tool_call tag', () => {
+      const text = '<tool_call>{"name": "search", "arguments": {"query": "loot"';
+
+      const [call] = lootToolCalls(text);
+
+      expect(call).toMatchObject({ name: 'search', arguments: { query: 'loot' }, errors: [] });
+      expect(call.repairs.map((r) => r.type)).toEqual(['truncated_close']);
+    });
+
+    it('should find plain JSON calls and arrays of calls without inspecting nested values', () => {
+      const text = `Calling tools:
+\`\`\`json
+[{"name": "a", "parameters": {"x": {"name": "nested", "args": 1}}}, {"name": "b", "parameters": {}}]
+\`\`\``;
+
+      expect(lootToolCalls(text).map((c) => c.name)).toEqual(['a', 'b']);
+    });
+
+    it('should return an empty array when there are no tool calls', () => {
+      expect(lootToolCalls('{"answer": 42}')).toEqual([]);
+      expect(lootToolCalls('no json here')).toEqual([]);
+    });
+  });
+
+  describe('message input', () => {
+    it('should read OpenAI tool_calls', () => {
+      const message = {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"location": "Seoul",}' },
+          },
+        ],
+      };
+
+      const [call] = lootToolCalls(message);
+
+      expect(call.id).toBe('call_1');
+      expect(call.arguments).toEqual({ location: 'Seoul' });
+      expect(call.repairs.map((r) => r.type)).toEqual(['trailing_comma']);
+    });
+
+    it('should treat empty argument strings as no arguments', () => {
+      const message = { tool_calls: [{ function: { name: 'ping', arguments: '' } }] };
+
+      expect(lootToolCalls(message)[0].arguments).toEqual({});
+    });
+
+    it('should read Anthropic tool_use blocks', () => {
+      const message = {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { location: 'Seoul' } },
+        ],
+      };
+
+      expect(lootToolCalls(message)).toEqual([
+        { id: 'toolu_1', name: 'get_weather', arguments: { location: 'Seoul' }, repairs: [], errors: [] },
+      ]);
+    });
+
+    it('should read Gemini functionCall parts', () => {
+      const content = { role: 'model', parts: [{ functionCall: { name: 'get_weather', args: { location: 'Seoul' } } }] };
+
+      expect(lootToolCalls(content)[0].arguments).toEqual({ location: 'Seoul' });
+    });
+
+    it('should fall back to tool calls embedded in message text', () => {
+      const message = { role: 'assistant', content: '<tool_call>{"name": "search", "arguments": {}}</tool_call>' };
+
+      expect(lootToolCalls(message).map((c) => c.name)).toEqual(['search']);
+    });
+  });
+
+  describe('schemas', () => {
+    it('should validate arguments against the per-tool schema', () => {
+      const text = '{"name": "get_weather", "arguments": {"days": 3}}';
+
+      const [call] = lootToolCalls(text, { schemas: { get_weather: weatherSchema } });
+
+      expect(call.errors).toHaveLength(1);
+      expect(call.errors[0].keyword).toBe('required');
+    });
+
+    it('should coerce arguments when coerce is enabled', () => {
+      const text = '{"name": "get_weather", "arguments": {"location": "Seoul", "days": "3"}}';
+
+      const [call] = lootToolCalls(text, { schemas: { get_weather: weatherSchema }, coerce: true });
+
+      expect(call.errors).toEqual([]);
+      expect(call.arguments).toEqual({ location: 'Seoul', days: 3 });
+    });
+
+    it('should keep the decoded arguments when coercion fails', () => {
+      const text = '{"name": "get_weather", "arguments": {"days": "3"}}';
+
+      const [call] = lootToolCalls(text, { schemas: { get_weather: weatherSchema }, coerce: true });
+
+      expect(call.errors[0].keyword).toBe('required');
+      expect(call.arguments).toEqual({ days: '3' });
+    });
+
+    it('should narrow argument types by tool name', () => {
+      const calls = lootToolCalls<{ get_weather: { location: string }; search: { query: string } }>(
+        '{"name": "search", "arguments": {"query": "loot"}}'
+      );
+      const call = calls[0];
+
+      expect(call.name === 'search' ? call.arguments.query : call.arguments.location).toBe('loot');
+    });
+
+    it('should report unparseable arguments', () => {
+      const message = { tool_calls: [{ function: { name: 'run', arguments: 'not json' } }] };
+
+      const [call] = lootToolCalls(message);
+
+      expect(call.arguments).toBe('not json');
+      expect(call.errors[0].keyword).toBe('parse');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_REPAIR_RULES, REPAIR_PRESETS, loot, lootCandidates, repairJson, StreamingRepair } from '../src';
+import type { RepairPreset } from '../src';
+
+const parses = (text: string, preset: RepairPreset): boolean => {
+  try {
+    JSON.parse(repairJson(text, { preset }));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// What each preset turns into valid JSON (accepts) and leaves broken (rejects)
+const corpus: Record<RepairPreset, { accepts: string[]; rejects: string[] }> = {
+  strict: {
+    accepts: ['{"a": 1,}', '[1, 2,]', '{"a": 1 // note\n}', '{/* c */"a": 1}', '{"a": "line\nbreak"}'],
+    rejects: [
+      "{'a': 1}",
+      '{a: 1}',
+      '{"a": undefined}',
+      '{"a": [1, 2',
+      '{"a": True}',
+      '{"a": 0x1F}',
+      '{"a": 1 "b": 2}',
+      '{"a": "say "hi" now"}',
+    ],
+  },
+  lenient: {
+    accepts: ["{'a': 1,}", '{a: 1}', '{"a": NaN}', '{"a": [1, 2', '{"a": "cut', '{"a": [1, 2}'],
+    rejects: ['{"a": True}', '{"a": (1, 2)}', '{"a": 0x1F}', '{"a": .5}', '{"a": 1 "b": 2}', '{"a" 1}'],
+  },
+  json5: {
+    accepts: [
+      "{unquoted: 'single', hex: 0xFF, lead: .5, trail: 5., plus: +1, inf: Infinity,}",
+      '{"a": \'it\\\'s\'}',
+      '{"a": "\\x41"}',
+      '// comment\n[1, /* two */ 2]',
+    ],
+    rejects: ['{"a": [1, 2', '{"a": None}', '{"a": `tpl`}', '{"a": 1 "b": 2}', '{"a": “x”}', '{"a": 1}}'],
+  },
+  'python-ish': {
+    accepts: [
+      "{'a': True, 'b': None, 'c': (1, 2)}",
+      "{'items': [(1,), (2,)], 'ok': False,}",
+      "{'hex': 0x1F, 'n': .5}",
+      "{'a': 'cut",
+    ],
+    rejects: ['{a: 1}', '{"a": 1 // note\n}', '{"a": undefined}', '{"a": +1}', '{"a": 1 "b": 2}'],
+  },
+  aggressive: {
+    accepts: [
+      '{a: True, "b": `tpl` "c": (1,), d: +.5, e: "say "hi" now", f: [1 2',
+      '｛“a”： 1，“b”: undefined｝',
+      '{"a" 1}',
+      '{"a": [1; 2}}',
+    ],
+    rejects: ['{"a": @}'],
+  },
+};
+
+describe('REPAIR_PRESETS', () => {
+  for (const [preset, { accepts, rejects }] of Object.entries(corpus) as Array<
+    [RepairPreset, { accepts: string[]; rejects: string[] }]
+  >) {
+    describe(preset, () => {
+      it.each(accepts)('should accept %j', (text) => {
+        expect(parses(text, preset)).toBe(true);
+      });
+
+      it.each(rejects)('should reject %j', (text) => {
+        expect(parses(text, preset)).toBe(false);
+      });
+    });
+  }
+
+  it('should define every rule in every preset', () => {
+    for (const rules of Object.values(REPAIR_PRESETS)) {
+      expect(Object.keys(rules).sort()).toEqual(Object.keys(DEFAULT_REPAIR_RULES).sort());
+    }
+    expect(REPAIR_PRESETS.aggressive).toEqual({ ...DEFAULT_REPAIR_RULES, json5Escapes: true });
+  });
+
+  it('should apply rule overrides on top of the preset', () => {
+    expect(repairJson("{'a': 1}", { preset: 'strict', rules: { singleQuotes: true } })).toBe('{"a": 1}');
+    expect(repairJson('{"a": 1,}', { preset: 'lenient', rules: { trailingComma: false } })).toBe('{"a": 1,}');
+  });
+
+  it('should apply the preset in StreamingRepair', () => {
+    const repairer = new StreamingRepair({ preset: 'python-ish' });
+    const text = repairer.addChunk("{'a': True, 'b': (1, ") + repairer.addChunk('2)}') + repairer.flush();
+
+    expect(JSON.parse(text)).toEqual({ a: true, b: [1, 2] });
+  });
+});
+
+describe('loot repair presets', () => {
+  it('should repair with the named preset', () => {
+    expect(loot("Result: {'a': 1, b: undefined}", { repair: 'lenient' })).toEqual({ a: 1, b: null });
+    expect(loot("{'a': True}", { repair: 'python-ish', reportRepairs: true }).repairs.map((r) => r.type)).toEqual([
+      'single_quote',
+      'python_literal',
+    ]);
+  });
+
+  it('should not find JSON the preset cannot repair', () => {
+    expect(loot("{'a': True}", { repair: 'strict', silent: true })).toBeNull();
+    expect(loot("{'a': True}", { repair: 'lenient', all: true })).toEqual([]);
+  });
+
+  it('should rank candidates with the preset', () => {
+    const [best] = lootCandidates('{"a": (1, 2)}', { repair: 'python-ish' });
+
+    expect(best.value).toEqual({ a: [1, 2] });
+  });
+});
@@ -0,0 +1,195 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  IncrementalLoot,
+  LootError,
+  ProviderStreamDecoder,
+  SSEParser,
+  decodeProviderStream,
+  extractProviderDelta,
+} from '../src';
+import type { IncrementalChunk, ProviderStreamOptions } from '../src';
+
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(__dirname, 'fixtures', name)));
+}
+
+// Split into small byte chunks so lines and characters straddle chunk boundaries
+function splitBytes(bytes: Uint8Array, size = 7): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) {
+    chunks.push(bytes.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function decodeFixture<T>(name: string, options: ProviderStreamOptions, parser = new IncrementalLoot<T>()) {
+  const decoder = new ProviderStreamDecoder(parser, options);
+  for (const chunk of splitBytes(fixture(name))) {
+    decoder.write(chunk);
+  }
+  decoder.end();
+  return decoder;
+}
+
+async function* fromChunks(chunks: IncrementalChunk[]): AsyncGenerator<IncrementalChunk> {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+describe('SSEParser', () => {
+  it('should parse events split across chunks', () => {
+    const sse = new SSEParser();
+
+    expect(sse.push('event: up')).toEqual([]);
+    expect(sse.push('date\ndata: {"a"')).toEqual([]);
+    expect(sse.push(':1}\n\n')).toEqual([{ event: 'update', data: '{"a":1}' }]);
+  });
+
+  it('should join multi-line data and skip comments', () => {
+    const sse = new SSEParser();
+
+    expect(sse.push(': keep-alive\ndata: line1\ndata: line2\n\n')).toEqual([
+      { event: 'message', data: 'line1\nline2' },
+    ]);
+  });
+
+  it('should handle CRLF split between chunks', () => {
+    const sse = new SSEParser();
+
+    expect(sse.push('data: a\r')).toEqual([]);
+    expect(sse.push('\n\r\n')).toEqual([{ event: 'message', data: 'a' }]);
+  });
+
+  it('should dispatch an unterminated final event on end', () => {
+    const sse = new SSEParser();
+
+    sse.push('id: 7\ndata: last');
+
+    expect(sse.end()).toEqual([{ event: 'message', data: 'last', id: '7' }]);
+  });
+
+  it('should decode multi-byte characters split across byte chunks', () => {
+    const sse = new SSEParser();
+    const bytes = new TextEncoder().encode('data: 안녕\n\n');
+
+    const events = [...sse.push(bytes.slice(0, 8)), ...sse.push(bytes.slice(8))];
+
+    expect(events).toEqual([{ event: 'message', data: '안녕' }]);
+  });
+});
+
+describe('ProviderStreamDecoder', () => {
+  const expected = { dialogue: 'Hello, traveler!', emotion: 'happy' };
+
+  it('should decode an OpenAI chat completions stream', () => {
+    const decoder = decodeFixture('openai-chat.sse', { provider: 'openai' });
+
+    expect(decoder.getParser().getResult()).toEqual(expected);
+    expect(decoder.isDone()).toBe(true);
+  });
+
+  it('should decode OpenAI tool call arguments', () => {
+    const decoder = decodeFixture('openai-tool.sse', { provider: 'openai', content: 'tool' });
+
+    expect(decoder.getParser().getResult()).toEqual({ location: 'Seoul', unit: 'celsius' });
+  });
+
+  it('should decode an Anthropic text stream', () => {
+    const onFieldComplete = vi.fn();
+    const parser = new IncrementalLoot({ fields: ['dialogue'], onFieldComplete });
+
+    const decoder = decodeFixture('anthropic-text.sse', { provider: 'anthropic' }, parser);
+
+    expect(onFieldComplete).toHaveBeenCalledWith('dialogue', 'Hello, traveler!');
+    expect(parser.getResult()).toEqual(expected);
+    expect(decoder.isDone()).toBe(true);
+  });
+
+  it('should decode Anthropic input_json_delta for tool use', () => {
+    const decoder = decodeFixture('anthropic-tool.sse', { provider: 'anthropic', content: 'tool' });
+
+    expect(decoder.getParser().getResult()).toEqual({ location: 'Seoul', unit: 'celsius' });
+  });
+
+  it('should ignore tool deltas in text mode', () => {
+    const decoder = decodeFixture('anthropic-tool.sse', { provider: 'anthropic' });
+
+    expect(decoder.getParser().getResult()).toBeNull();
+  });
+
+  it('should decode a Gemini stream', () => {
+    const decoder = decodeFixture('gemini-text.sse', { provider: 'gemini' });
+
+    expect(decoder.getParser().getResult()).toEqual(expected);
+    expect(decoder.isDone()).toBe(true);
+  });
+
+  it('should report raw events through onEvent', () => {
+    const onEvent = vi.fn();
+
+    decodeFixture('anthropic-text.sse', { provider: 'anthropic', onEvent });
+
+    expect(onEvent).toHaveBeenCalledWith({ event: 'ping', data: '{"type": "ping"}' });
+  });
+
+  it('should throw a PROVIDER_ERROR on stream errors', () => {
+    const decoder = new ProviderStreamDecoder(new IncrementalLoot(), { provider: 'anthropic' });
+    const error =
+      'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n';
+
+    expect(() => decoder.write(error)).toThrow(LootError);
+    expect(() => decoder.write(error)).toThrow('Anthropic stream error: Overloaded');
+  });
+
+  it('should give the parser the text of events before an error in the same chunk', () => {
+    const decoder = new ProviderStreamDecoder(new IncrementalLoot(), { provider: 'anthropic' });
+    const chunk =
+      'event: content_block_delta\n' +
+      'data: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"{\\"a\\": 1}"}}\n\n' +
+      'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n';
+
+    expect(() => decoder.write(chunk)).toThrow(LootError);
+    expect(decoder.getParser().getResult()).toEqual({ a: 1 });
+  });
+});
+
+describe('decodeProviderStream', () => {
+  it('should feed IncrementalLoot.fromAsyncIterable', async () => {
+    const deltas = decodeProviderStream(fromChunks(splitBytes(fixture('openai-chat.sse'))), {
+      provider: 'openai',
+    });
+
+    const events = [];
+    for await (const event of IncrementalLoot.fromAsyncIterable(deltas, { fields: ['emotion'] })) {
+      events.push(event);
+    }
+
+    expect(events).toContainEqual({ type: 'fieldComplete', field: 'emotion', value: 'happy' });
+    expect(events).toContainEqual({
+      type: 'complete',
+      result: { dialogue: 'Hello, traveler!', emotion: 'happy' },
+    });
+  });
+});
+
+describe('extractProviderDelta', () => {
+  it('should read OpenAI Responses API deltas', () => {
+    const event = {
+      event: 'response.output_text.delta',
+      data: '{"type":"response.output_text.delta","delta":"{\\"a\\": 1}"}',
+    };
+
+    expect(extractProviderDelta('openai', event)).toEqual({ text: '{"a": 1}', done: false });
+    expect(extractProviderDelta('openai', event, 'tool')).toEqual({ text: '', done: false });
+  });
+
+  it('should ignore non-JSON data', () => {
+    expect(extractProviderDelta('gemini', { event: 'message', data: 'hello' })).toEqual({
+      text: '',
+      done: false,
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { formatRepairDiff, repairJson } from '../src';
+
+describe('formatRepairDiff', () => {
+  it('should render a hunk per repair', () => {
+    const input = "{'a': 1,}";
+    const { repairs } = repairJson(input, true);
+
+    expect(formatRepairDiff(repairs, input)).toBe(
+      [
+        '@@ 1:2 single_quote @@ Converted single-quoted string to double-quoted',
+        "-{'a': 1,}",
+        '+{"a": 1,}',
+        '@@ 1:8 trailing_comma @@ Removed trailing comma',
+        "-{'a': 1,}",
+        "+{'a': 1}",
+      ].join('\n')
+    );
+  });
+
+  it('should split snippets with line breaks into several lines', () => {
+    const input = '{"a": "one\ntwo"}';
+    const { repairs } = repairJson(input, true);
+
+    expect(formatRepairDiff(repairs, input).split('\n')).toEqual([
+      '@@ 1:11 unescaped_newline @@ Escaped unescaped newline in string',
+      '-{"a": "one',
+      '-two"}',
+      '+{"a": "one\\ntwo"}',
+    ]);
+  });
+
+  it('should show the input line of repairs without snippets', () => {
+    const input = '{"a": 1}\n{"b": 2,}';
+    const repairs = [{ type: 'custom', position: 15, description: 'Checked', fixed: true }];
+
+    expect(formatRepairDiff(repairs, input)).toBe('@@ 2:7 custom @@ Checked\n {"b": 2,}');
+  });
+
+  it('should color the report with ANSI escapes', () => {
+    const input = '[1,]';
+    const { repairs } = repairJson(input, true);
+
+    expect(formatRepairDiff(repairs, input, { color: true })).toBe(
+      '\x1b[36m@@ 1:3 trailing_comma @@\x1b[0m Removed trailing comma\n\x1b[31m-[1,]\x1b[0m\n\x1b[32m+[1]\x1b[0m'
+    );
+  });
+
+  it('should return an empty string without repairs', () => {
+    expect(formatRepairDiff([], '{}')).toBe('');
+  });
+});
@@ -1,5 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { repairJson, StreamingRepair } from '../src';
+import { Tokenizer } from '../src/cst/tokenizer';
+import type { CustomRepairRule } from '../src';
 
 describe('repairJson', () => {
   describe('trailing commas', () => {
@@ -46,6 +48,10 @@ describe('repairJson', () => {
       const result = repairJson('{"url": "http://example.com"}');
       expect(JSON.parse(result)).toEqual({ url: 'http://example.com' });
     });
+
+    it('should keep the line break after a single-line comment', () => {
+      expect(repairJson('{"a": 1, // one\n"b": 2}')).toBe('{"a": 1, \n"b": 2}');
+    });
   });
 
   describe('unquoted keys', () => {
@@ -111,6 +117,350 @@ describe('repairJson', () => {
     });
   });
 
+  describe('python literals', () => {
+    it('should convert True, False and None', () => {
+      const result = repairJson("{'ok': True, 'failed': False, 'value': None}");
+      expect(JSON.parse(result)).toEqual({ ok: true, failed: false, value: null });
+    });
+
+    it('should convert tuples to arrays', () => {
+      const result = repairJson("{'pair': (1, 2), 'single': ('a',), 'empty': (), 'nested': ((1, 2), [3])}");
+      expect(JSON.parse(result)).toEqual({ pair: [1, 2], single: ['a'], empty: [], nested: [[1, 2], [3]] });
+    });
+
+    it('should close a truncated tuple', () => {
+      expect(JSON.parse(repairJson("{'pair': (1, 2"))).toEqual({ pair: [1, 2] });
+    });
+
+    it('should not touch strings or keys', () => {
+      const result = repairJson('{"text": "True (or None)", None: 1}');
+      expect(JSON.parse(result)).toEqual({ text: 'True (or None)', None: 1 });
+    });
+
+    it('should log conversions at their input positions', () => {
+      const input = "{'a': None, 'b': (1, True)}";
+      const { repairs } = repairJson(input, { trackRepairs: true });
+
+      expect(repairs.filter((r) => r.type !== 'single_quote')).toMatchObject([
+        { type: 'python_literal', position: input.indexOf('None'), description: 'Converted Python None to null' },
+        { type: 'tuple', position: input.indexOf('(') },
+        { type: 'python_literal', position: input.indexOf('True') },
+      ]);
+    });
+
+    it('should be disabled with pythonLiterals: false and tuples: false', () => {
+      const rules = { pythonLiterals: false, tuples: false };
+      expect(repairJson('{"a": True, "b": (1)}', { rules })).toBe('{"a": True, "b": (1)}');
+    });
+  });
+
+  describe('json5 literals', () => {
+    it('should convert hex numbers', () => {
+      expect(JSON.parse(repairJson('{"a": 0x1F, "b": -0xff}'))).toEqual({ a: 31, b: -255 });
+    });
+
+    it('should fix leading and trailing decimal points', () => {
+      expect(JSON.parse(repairJson('[.5, -.25, 5., 1.e3]'))).toEqual([0.5, -0.25, 5, 1000]);
+    });
+
+    it('should remove plus signs', () => {
+      expect(JSON.parse(repairJson('{"a": +3, "b": +.5, "c": +0x10}'))).toEqual({ a: 3, b: 0.5, c: 16 });
+    });
+
+    it('should convert backtick strings', () => {
+      const result = repairJson('{"a": `say "hi"\n\tnow`, `b`: `it\\`s`}');
+      expect(JSON.parse(result)).toEqual({ a: 'say "hi"\n\tnow', b: 'it`s' });
+    });
+
+    it('should convert \\x and JSON5 escapes', () => {
+      const input = "{\"a\": \"\\x41\\v\\0\", 'b': 'it\\'s', \"c\": \"one \\\ntwo\"}";
+      const result = repairJson(input, { preset: 'aggressive' });
+      expect(JSON.parse(result)).toEqual({ a: 'A\u000b\u0000', b: "it's", c: 'one two' });
+    });
+
+    it('should keep invalid escapes unless json5Escapes is enabled', () => {
+      const input = '{"path": "C:\\Users\\dev", "re": "\\d+", "s": \'it\\\'s\'}';
+      expect(repairJson(input)).toBe('{"path": "C:\\Users\\dev", "re": "\\d+", "s": "it\'s"}');
+      expect(repairJson(input, { rules: { json5Escapes: true } })).toBe(
+        '{"path": "C:Usersdev", "re": "d+", "s": "it\'s"}'
+      );
+    });
+
+    it('should not touch numbers inside strings', () => {
+      const input = '{"a": "0x1F .5 +3 `x`"}';
+      expect(repairJson(input)).toBe(input);
+    });
+
+    it('should log each conversion', () => {
+      const input = '[0xA, .5, 5., +1, `s`, "\\x41"]';
+      const { repairs } = repairJson(input, { trackRepairs: true });
+
+      expect(repairs.map((r) => r.type)).toEqual([
+        'hex_number',
+        'leading_decimal_point',
+        'trailing_decimal_point',
+        'plus_sign',
+        'backtick_string',
+        'hex_escape',
+      ]);
+      expect(repairs[5].position).toBe(input.indexOf('\\x'));
+    });
+
+    it('should allow disabling each rule', () => {
+      const rules = {
+        hexNumbers: false,
+        leadingDecimalPoint: false,
+        trailingDecimalPoint: false,
+        plusSign: false,
+        backtickStrings: false,
+        hexEscapes: false,
+        json5Escapes: false,
+      };
+      const input = '[0xA, .5, 5., +1, `s`, "\\x41\\v"]';
+      expect(repairJson(input, { rules })).toBe(input);
+    });
+  });
+
+  describe('missing separators', () => {
+    it('should insert missing commas between values', () => {
+      expect(JSON.parse(repairJson('{"a": 1 "b": 2}'))).toEqual({ a: 1, b: 2 });
+      expect(JSON.parse(repairJson('["x" "y"\n"z"]'))).toEqual(['x', 'y', 'z']);
+      expect(JSON.parse(repairJson('[{"a": 1} {"b": [1 2]} true]'))).toEqual([{ a: 1 }, { b: [1, 2] }, true]);
+    });
+
+    it('should insert missing colons after keys', () => {
+      expect(JSON.parse(repairJson('{"a" 1, "b" {"c" [true]}}'))).toEqual({ a: 1, b: { c: [true] } });
+      expect(JSON.parse(repairJson("{name 'x' age 3}"))).toEqual({ name: 'x', age: 3 });
+    });
+
+    it('should insert the separator right after the previous value', () => {
+      const input = '{"a": 1\n  "b" 2}';
+      const { text, repairs } = repairJson(input, { trackRepairs: true });
+
+      expect(text).toBe('{"a": 1,\n  "b": 2}');
+      expect(repairs).toMatchObject([
+        { type: 'missing_comma', position: 7, line: 1, column: 8 },
+        { type: 'missing_colon', position: 13, line: 2, column: 6 },
+      ]);
+    });
+
+    it('should leave root-level values and strings alone', () => {
+      expect(repairJson('{"a": 1} {"b": 2}')).toBe('{"a": 1} {"b": 2}');
+      expect(repairJson('{"a": "1 2" }')).toBe('{"a": "1 2" }');
+    });
+
+    it('should be disabled with missingCommas: false and missingColons: false', () => {
+      const rules = { missingCommas: false, missingColons: false };
+      expect(repairJson('{"a" 1 "b": 2}', { rules })).toBe('{"a" 1 "b": 2}');
+    });
+  });
+
+  describe('unescaped quotes', () => {
+    it('should escape quotes inside string values', () => {
+      const result = repairJson('{"text": "He said "hi" to me", "n": 1}');
+      expect(JSON.parse(result)).toEqual({ text: 'He said "hi" to me', n: 1 });
+    });
+
+    it('should keep quotes followed by a terminator as closing quotes', () => {
+      expect(JSON.parse(repairJson('["a "b" c", "d"]'))).toEqual(['a "b" c', 'd']);
+      expect(JSON.parse(repairJson('{"a": "x" "b": "y"}'))).toEqual({ a: 'x', b: 'y' });
+      expect(JSON.parse(repairJson('{"a" "quoted "word" here"}'))).toEqual({ a: 'quoted "word" here' });
+    });
+
+    it('should escape an inner quote followed by the closing quote', () => {
+      const { text, repairs } = repairJson('{"a": "He said, "hi""}', true);
+
+      expect(JSON.parse(text)).toEqual({ a: 'He said, "hi"' });
+      expect(repairs.map((r) => r.type)).toEqual(['unescaped_quote', 'unescaped_quote']);
+    });
+
+    it('should only close a string at a parenthesis inside a tuple', () => {
+      expect(JSON.parse(repairJson('{"t": "see "x" (or "y") now"}'))).toEqual({ t: 'see "x" (or "y") now' });
+      expect(JSON.parse(repairJson('{"p": ("a", "b")}'))).toEqual({ p: ['a', 'b'] });
+    });
+
+    it('should close a string value at its first inner quote when no later quote closes it', () => {
+      // The closer stays outside the string instead of ending up in the value
+      expect(repairJson('{"a": "x" y}')).toBe('{"a": "x", "y"}');
+      expect(repairJson('["x" y]')).toBe('["x", y]');
+      expect(JSON.parse(repairJson('{"a": "He said "hi" to me"}'))).toEqual({ a: 'He said "hi" to me' });
+    });
+
+    it('should escape inner quotes in truncated strings', () => {
+      expect(JSON.parse(repairJson('{"text": "He said "hi'))).toEqual({ text: 'He said "hi' });
+    });
+
+    it('should log each escaped quote', () => {
+      const input = '{"text": "a "b" c"}';
+      const { repairs } = repairJson(input, { trackRepairs: true });
+
+      expect(repairs).toMatchObject([
+        { type: 'unescaped_quote', position: 12, column: 13 },
+        { type: 'unescaped_quote', position: 14, column: 15 },
+      ]);
+    });
+
+    it('should be disabled with unescapedQuotes: false', () => {
+      const input = '{"text": "a "b" c"}';
+      const rules = { unescapedQuotes: false, missingCommas: false, missingColons: false };
+      expect(repairJson(input, { rules })).toBe(input);
+    });
+
+    it('should not split streaming sections inside a string', () => {
+      const repairer = new StreamingRepair();
+      const result =
+        repairer.addChunk('{"text": "He said "') +
+        repairer.addChunk('hi" to me"') +
+        repairer.addChunk(', "n": [1]}') +
+        repairer.flush();
+
+      expect(JSON.parse(result)).toEqual({ text: 'He said "hi" to me', n: [1] });
+    });
+  });
+
+  describe('unicode punctuation', () => {
+    it('should normalize smart quotes used as delimiters', () => {
+      const result = repairJson('{\u201ckey\u201d: \u2018value\u2019, \u201cn\u201d: 1}');
+      expect(JSON.parse(result)).toEqual({ key: 'value', n: 1 });
+    });
+
+    it('should normalize full-width punctuation and unusual spaces', () => {
+      const result = repairJson('\ufeff{"a"\uff1a\u00a01\uff0c\u3000"b": [2\uff0c 3]\u200b}');
+      expect(JSON.parse(result)).toEqual({ a: 1, b: [2, 3] });
+    });
+
+    it('should keep curly apostrophes inside curly-quoted strings', () => {
+      const result = repairJson('{"a": \u2018it\u2019s\u2019, "b": \u201cthe \u201cbest\u201d one\u201d}');
+      expect(JSON.parse(result)).toEqual({ a: 'it\u2019s', b: 'the \u201cbest\u201d one' });
+    });
+
+    it('should never touch string contents', () => {
+      const input = '{"a": "\u201cquoted\u201d\uff1a\u00a0\uff0c"}';
+      expect(repairJson(input)).toBe(input);
+    });
+
+    it('should log each normalized character', () => {
+      const { repairs } = repairJson('{"a"\uff1a 1}', { trackRepairs: true });
+      expect(repairs).toMatchObject([
+        { type: 'unicode_punctuation', position: 4, description: "Normalized U+FF1A (replaced with ':')" },
+      ]);
+    });
+
+    it('should be disabled with unicodePunctuation: false', () => {
+      const input = '{"a"\uff1a 1}';
+      expect(repairJson(input, { rules: { unicodePunctuation: false, missingColons: false } })).toBe(input);
+    });
+  });
+
+  describe('unbalanced brackets', () => {
+    it('should close inner containers at an outer closer', () => {
+      expect(repairJson('{"a": [1, 2}')).toBe('{"a": [1, 2]}');
+      expect(JSON.parse(repairJson('{"a": {"b": [1}, "c": 2}'))).toEqual({ a: { b: [1] }, c: 2 });
+    });
+
+    it('should replace a wrong closer followed by more members of the root value', () => {
+      const { text, repairs } = repairJson('{"a": [1, 2}, "b": 3}', { trackRepairs: true });
+
+      expect(text).toBe('{"a": [1, 2], "b": 3}');
+      expect(repairs).toMatchObject([
+        { type: 'unbalanced_bracket', position: 11, description: "Replaced '}' with ']'" },
+      ]);
+      expect(JSON.parse(repairJson('[{"a": [1}, {"b": 2}]'))).toEqual([{ a: [1] }, { b: 2 }]);
+    });
+
+    it('should remove closers without an opener', () => {
+      expect(repairJson('{"a": 1}}')).toBe('{"a": 1}');
+      expect(JSON.parse(repairJson('{"a": [1]], "b": 2}'))).toEqual({ a: [1], b: 2 });
+    });
+
+    it('should log each bracket', () => {
+      const { repairs } = repairJson('{"a": [1}}', { trackRepairs: true });
+      expect(repairs).toMatchObject([
+        { type: 'unbalanced_bracket', position: 8, description: "Inserted missing ']'" },
+        { type: 'unbalanced_bracket', position: 9, description: "Removed unmatched '}'" },
+      ]);
+    });
+
+    it('should be disabled with unbalancedBrackets: false', () => {
+      const input = '{"a": [1}}';
+      expect(repairJson(input, { rules: { unbalancedBrackets: false } })).toBe(input);
+    });
+  });
+
+  describe('stray text', () => {
+    it('should remove characters that cannot start a value', () => {
+      expect(repairJson('{"a": 1; "b": 2}')).toBe('{"a": 1, "b": 2}');
+      expect(JSON.parse(repairJson('[1 @ 2 # 3]'))).toEqual([1, 2, 3]);
+    });
+
+    it('should leave text around root values alone', () => {
+      expect(repairJson('# result: {"a": 1} ;')).toBe('# result: {"a": 1} ;');
+    });
+
+    it('should log the removed text', () => {
+      const { repairs } = repairJson('{"a" = 1}', { trackRepairs: true });
+      expect(repairs).toMatchObject([
+        { type: 'missing_colon', position: 4 },
+        { type: 'stray_text', position: 5, description: 'Removed stray text: =' },
+      ]);
+    });
+
+    it('should be disabled with strayText: false', () => {
+      expect(repairJson('{"a": 1;}', { rules: { strayText: false } })).toBe('{"a": 1;}');
+    });
+  });
+
+  describe('truncated output', () => {
+    it('should close an unterminated string and missing braces', () => {
+      const result = repairJson('{"a": 1, "b": "hel');
+      expect(JSON.parse(result)).toEqual({ a: 1, b: 'hel' });
+    });
+
+    it('should append closers in the right order', () => {
+      const result = repairJson('{"a": [{"b": 1}, {"c": "d"');
+      expect(JSON.parse(result)).toEqual({ a: [{ b: 1 }, { c: 'd' }] });
+    });
+
+    it('should drop a dangling key', () => {
+      expect(JSON.parse(repairJson('{"a": 1, "b":'))).toEqual({ a: 1 });
+      expect(JSON.parse(repairJson('{"a": 1, "b'))).toEqual({ a: 1 });
+      expect(JSON.parse(repairJson('{"a": {"b": '))).toEqual({ a: {} });
+    });
+
+    it('should drop a dangling comma', () => {
+      expect(JSON.parse(repairJson('[1, 2,'))).toEqual([1, 2]);
+    });
+
+    it('should complete partial literals and numbers', () => {
+      expect(JSON.parse(repairJson('{"a": tru'))).toEqual({ a: true });
+      expect(JSON.parse(repairJson('[1, 2, n'))).toEqual([1, 2, null]);
+      expect(JSON.parse(repairJson('{"a": 1.'))).toEqual({ a: 1 });
+      expect(JSON.parse(repairJson('{"a": -'))).toEqual({});
+    });
+
+    it('should drop an incomplete escape sequence', () => {
+      expect(JSON.parse(repairJson('{"a": "x\\'))).toEqual({ a: 'x' });
+      expect(JSON.parse(repairJson('{"a": "x\\u00'))).toEqual({ a: 'x' });
+    });
+
+    it('should log a truncated_close repair', () => {
+      const { repairs } = repairJson('{"a": [1, 2', { trackRepairs: true });
+      expect(repairs).toHaveLength(1);
+      expect(repairs[0].type).toBe('truncated_close');
+      expect(repairs[0].position).toBe(11);
+    });
+
+    it('should leave balanced JSON untouched', () => {
+      const { text, repairs } = repairJson('{"a": [1, 2]}', { trackRepairs: true });
+      expect(text).toBe('{"a": [1, 2]}');
+      expect(repairs).toEqual([]);
+    });
+
+    it('should be disabled with closeTruncated: false', () => {
+      expect(repairJson('{"a": [1', { rules: { closeTruncated: false } })).toBe('{"a": [1');
+    });
+  });
+
   describe('repair tracking', () => {
     it('should return repairs when tracking is enabled', () => {
       const result = repairJson('{"key": "value",}', true);
@@ -138,6 +488,27 @@ describe('repairJson', () => {
       expect(trailingCommaRepair).toBeDefined();
       expect(trailingCommaRepair?.position).toBeDefined();
     });
+
+    it('should include before/after snippets with context', () => {
+      const { repairs } = repairJson('{"key": "value",} and more text after it', true);
+
+      expect(repairs[0]).toMatchObject({
+        original: '{"key": "value",} and more text afte',
+        replacement: '{"key": "value"} and more text afte',
+      });
+    });
+
+    it('should keep snippet context on the lines of the repair', () => {
+      const { repairs } = repairJson('{\n  name: "a"\n}', true);
+
+      expect(repairs[0]).toMatchObject({ original: '  name: "a"', replacement: '  "name": "a"' });
+    });
+
+    it('should show a truncated tail as one snippet', () => {
+      const { repairs } = repairJson('{"a": [1, "cut', true);
+
+      expect(repairs[0]).toMatchObject({ original: '{"a": [1, "cut', replacement: '{"a": [1, "cut"]}' });
+    });
   });
 
   describe('combined repairs', () => {
@@ -179,6 +550,35 @@ describe('repairJson', () => {
       expect(result.text).toBe('{"key": "value"}');
       expect(result.repairs.length).toBeGreaterThan(0);
     });
+
+    it('should report positions in the original input', () => {
+      const input = "{\n  // note\n  name: 'a',\n  size: NaN,\n}";
+      const { repairs } = repairJson(input, { trackRepairs: true });
+      const at = (type: string) => repairs.find((r) => r.type === type);
+
+      expect(at('unquoted_key')).toMatchObject({ position: input.indexOf('name'), line: 3, column: 3 });
+      expect(at('invalid_value')).toMatchObject({ position: input.indexOf('NaN'), line: 4, column: 9 });
+      expect(at('trailing_comma')).toMatchObject({ position: input.lastIndexOf(','), line: 4, column: 12 });
+    });
+
+    it('should log repairs in input order', () => {
+      const { repairs } = repairJson("{a: undefined, 'b': [1,],}", { trackRepairs: true });
+      expect(repairs.map((r) => r.type)).toEqual([
+        'unquoted_key',
+        'invalid_value',
+        'single_quote',
+        'trailing_comma',
+        'trailing_comma',
+      ]);
+    });
+
+    it('should never touch string contents', () => {
+      const input = '{"text": "a,} {b: undefined, c: NaN", note: "[1,]"}';
+      const { text, repairs } = repairJson(input, { trackRepairs: true });
+
+      expect(JSON.parse(text)).toEqual({ text: 'a,} {b: undefined, c: NaN', note: '[1,]' });
+      expect(repairs.map((r) => r.type)).toEqual(['unquoted_key']);
+    });
   });
 
   describe('v0.2.0 - configurable rules', () => {
@@ -256,6 +656,67 @@ describe('repairJson', () => {
     });
   });
 
+  describe('custom rules', () => {
+    const stripEot: CustomRepairRule = {
+      name: 'eot_token',
+      onChar: (_char, { input, position }) =>
+        input.startsWith('<|eot_id|>', position) ? { replacement: '', length: 10 } : null,
+    };
+
+    const fatArrow: CustomRepairRule = {
+      name: 'fat_arrow',
+      onChar: (_char, { input, position, inString }) =>
+        !inString && input.startsWith('=>', position)
+          ? { replacement: ':', length: 2, description: 'Replaced => with :' }
+          : null,
+    };
+
+    const yesNo: CustomRepairRule = {
+      name: 'yes_no',
+      onToken: (token, { isKey }) =>
+        !isKey && (token === 'yes' || token === 'no') ? { replacement: String(token === 'yes') } : null,
+    };
+
+    it('should apply character rules and log them with their name', () => {
+      const input = '{"a" => 1, "b" => "x => y"}<|eot_id|>';
+      const { text, repairs } = repairJson(input, { trackRepairs: true, customRules: [stripEot, fatArrow] });
+
+      expect(JSON.parse(text)).toEqual({ a: 1, b: 'x => y' });
+      expect(repairs).toMatchObject([
+        { type: 'fat_arrow', position: 5, description: 'Replaced => with :' },
+        { type: 'fat_arrow', position: 15 },
+        { type: 'eot_token', position: 27, description: 'Applied eot_token' },
+      ]);
+    });
+
+    it('should run the replacement through the built-in rules', () => {
+      const quoteKey: CustomRepairRule = {
+        name: 'hash_key',
+        onChar: (char) => (char === '#' ? { replacement: "'" } : null),
+      };
+      expect(JSON.parse(repairJson('{#a#: 1}', { customRules: [quoteKey] }))).toEqual({ a: 1 });
+    });
+
+    it('should apply token rules before the built-in rules', () => {
+      const result = repairJson('{ok: yes, done: no, yes: None}', { customRules: [yesNo] });
+      expect(JSON.parse(result)).toEqual({ ok: true, done: false, yes: null });
+    });
+
+    it('should try rules in order', () => {
+      const first: CustomRepairRule = { name: 'first', onToken: () => ({ replacement: '1' }) };
+      const second: CustomRepairRule = { name: 'second', onToken: () => ({ replacement: '2' }) };
+      expect(repairJson('[x]', { customRules: [first, second] })).toBe('[1]');
+    });
+
+    it('should work with StreamingRepair', () => {
+      const repairer = new StreamingRepair({ trackRepairs: true, customRules: [fatArrow] });
+      const result = repairer.addChunk('{"a" => 1, ') + repairer.addChunk('"b" => [2]}') + repairer.flush();
+
+      expect(JSON.parse(result)).toEqual({ a: 1, b: [2] });
+      expect(repairer.getRepairs().filter((r) => r.type === 'fat_arrow')).toHaveLength(2);
+    });
+  });
+
   describe('v0.2.0 - StreamingRepair', () => {
     it('should repair chunks incrementally', () => {
       const repairer = new StreamingRepair();
@@ -291,6 +752,50 @@ describe('repairJson', () => {
       expect(result).toContain("'");
     });
 
+    it('should give the same result for any chunk size', () => {
+      const text = "{'a': [1, 2, True], b: \"x \\\" y\", /* c */ 'c': {\"d\": \"He said \"hi\" now\"},}";
+      const expected = JSON.parse(repairJson(text));
+
+      for (const size of [1, 2, 5, 16]) {
+        const repairer = new StreamingRepair();
+        let result = '';
+        for (let i = 0; i < text.length; i += size) {
+          result += repairer.addChunk(text.slice(i, i + size));
+        }
+        expect(JSON.parse(result + repairer.flush())).toEqual(expected);
+      }
+    });
+
+    it('should insert missing commas between values in different chunks', () => {
+      for (const text of ['{"a": "x" "b": "y"}', '["x" "y"]', '[{"a": 1} {"b": 2}]']) {
+        for (const size of [1, 2, 5, text.length]) {
+          const repairer = new StreamingRepair();
+          let result = '';
+          for (let i = 0; i < text.length; i += size) {
+            result += repairer.addChunk(text.slice(i, i + size));
+          }
+          expect(result + repairer.flush()).toBe(repairJson(text));
+        }
+      }
+    });
+
+    it('should not scan the buffer again for every chunk', () => {
+      const next = vi.spyOn(Tokenizer.prototype, 'next');
+      const numbers = `[${Array.from({ length: 2000 }, (_, i) => i).join(', ')}]`;
+      const text = `{"numbers": ${numbers}, "text": "${'lorem ipsum '.repeat(2000)}"}`;
+
+      const repairer = new StreamingRepair();
+      let result = '';
+      for (let i = 0; i < text.length; i += 4) {
+        result += repairer.addChunk(text.slice(i, i + 4));
+      }
+
+      expect(result + repairer.flush()).toBe(text);
+      // About one call per token and per chunk, rather than per token per chunk
+      expect(next.mock.calls.length).toBeLessThan(3 * 4000 + text.length / 4);
+      next.mockRestore();
+    });
+
     it('should reset state correctly', () => {
       const repairer = new StreamingRepair({ trackRepairs: true });
 
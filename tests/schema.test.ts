@@ -710,4 +710,112 @@ describe('SchemaValidator', () => {
       expect(validator.validate([1, 2, 3], schema).valid).toBe(false);
     });
   });
+
+  describe('coerce mode', () => {
+    it('should convert numeric strings to numbers and integers', () => {
+      const schema = {
+        type: 'object' as const,
+        properties: {
+          count: { type: 'integer' as const },
+          price: { type: 'number' as const },
+        },
+      };
+
+      const result = validate({ count: '42', price: '9.99' }, schema, { coerce: true });
+      expect(result.valid).toBe(true);
+      expect(result.data).toEqual({ count: 42, price: 9.99 });
+      expect(result.coercions?.map((c) => c.type)).toEqual(['string_to_integer', 'string_to_number']);
+      expect(result.coercions?.[0].path).toBe('count');
+    });
+
+    it('should not coerce non-integer strings to integer', () => {
+      const result = validate('3.5', { type: 'integer' }, { coerce: true });
+      expect(result.valid).toBe(false);
+      expect(result.coercions).toEqual([]);
+    });
+
+    it('should convert booleans and null', () => {
+      expect(validate('true', { type: 'boolean' }, { coerce: true }).data).toBe(true);
+      expect(validate('FALSE', { type: 'boolean' }, { coerce: true }).data).toBe(false);
+      expect(validate(1, { type: 'boolean' }, { coerce: true }).data).toBe(true);
+      expect(validate('null', { type: 'null' }, { coerce: true }).valid).toBe(true);
+    });
+
+    it('should convert primitives to string', () => {
+      const result = validate(42, { type: 'string' }, { coerce: true });
+      expect(result.data).toBe('42');
+      expect(result.coercions?.[0].type).toBe('to_string');
+    });
+
+    it('should wrap a single value where an array is expected', () => {
+      const schema = {
+        type: 'array' as const,
+        items: { type: 'object' as const, properties: { id: { type: 'integer' as const } } },
+      };
+
+      const result = validate({ id: '1' }, schema, { coerce: true });
+      expect(result.valid).toBe(true);
+      expect(result.data).toEqual([{ id: 1 }]);
+      expect(result.coercions?.map((c) => c.path)).toEqual(['(root)', '0.id']);
+    });
+
+    it('should match enum values case-insensitively', () => {
+      const schema = { enum: ['happy', 'sad'] };
+      const result = validate('Happy', schema, { coerce: true });
+      expect(result.data).toBe('happy');
+      expect(result.coercions?.[0].type).toBe('enum_match');
+
+      expect(validate('2', { enum: [1, 2, 3] }, { coerce: true }).data).toBe(2);
+    });
+
+    it('should fill missing properties with defaults', () => {
+      const schema = {
+        type: 'object' as const,
+        properties: {
+          name: { type: 'string' as const },
+          tags: { type: 'array' as const, default: [] },
+        },
+        required: ['name', 'tags'],
+      };
+
+      const result = validate({ name: 'x' }, schema, { coerce: true });
+      expect(result.valid).toBe(true);
+      expect(result.data).toEqual({ name: 'x', tags: [] });
+      expect(result.coercions?.[0]).toMatchObject({ type: 'default_value', path: 'tags' });
+    });
+
+    it('should coerce through $ref and anyOf', () => {
+      const schema = {
+        definitions: { age: { type: 'integer' as const } },
+        type: 'object' as const,
+        properties: {
+          age: { $ref: '#/definitions/age' },
+          flag: { anyOf: [{ type: 'null' as const }, { type: 'boolean' as const }] },
+        },
+      };
+
+      const result = validate({ age: '30', flag: 'true' }, schema, { coerce: true });
+      expect(result.valid).toBe(true);
+      expect(result.data).toEqual({ age: 30, flag: true });
+    });
+
+    it('should not mutate the input', () => {
+      const input = { count: '1' };
+      validate(input, { properties: { count: { type: 'integer' } } }, { coerce: true });
+      expect(input).toEqual({ count: '1' });
+    });
+
+    it('should still report errors that cannot be coerced', () => {
+      const result = validate({ count: 'many' }, { properties: { count: { type: 'integer' } } }, {
+        coerce: true,
+      });
+      expect(result.valid).toBe(false);
+      expect(result.data).toBeNull();
+      expect(result.errors[0].path).toBe('count');
+    });
+
+    it('should not include coercions when coerce is disabled', () => {
+      expect(validate('42', { type: 'number' }).coercions).toBeUndefined();
+    });
+  });
 });
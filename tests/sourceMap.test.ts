@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { buildSourceMap, findSourceSpan, loot, validate } from '../src';
+import type { LootSchema, SourceSpan } from '../src';
+
+const slice = (text: string, span: SourceSpan | undefined): string =>
+  text.slice(span?.start.offset, span?.end.offset);
+
+describe('loot sourceMap', () => {
+  it('should map values inside a fenced block to lines and columns', () => {
+    const text = 'Here you go:\n```json\n{\n  "name": "sword",\n  "tags": ["a", "b"]\n}\n```';
+    const { result, sourceMap } = loot(text, { sourceMap: true });
+
+    expect(result).toEqual({ name: 'sword', tags: ['a', 'b'] });
+    expect(slice(text, sourceMap[''])).toBe('{\n  "name": "sword",\n  "tags": ["a", "b"]\n}');
+    expect(slice(text, sourceMap['/name'])).toBe('"sword"');
+    expect(sourceMap['/name'].start).toEqual({ offset: text.indexOf('"sword"'), line: 4, column: 11 });
+    expect(sourceMap['/name'].key?.start).toMatchObject({ line: 4, column: 3 });
+    expect(slice(text, sourceMap['/tags/1'])).toBe('"b"');
+  });
+
+  it('should point at the original text after repair', () => {
+    const text = "{\n  // the item\n  name: 'sword',\n  damage: 50,\n}";
+    const { result, repairs, sourceMap } = loot(text, { sourceMap: true });
+
+    expect(result).toEqual({ name: 'sword', damage: 50 });
+    expect(repairs.length).toBeGreaterThan(0);
+    expect(slice(text, sourceMap['/name'])).toBe("'sword'");
+    expect(slice(text, sourceMap['/damage'])).toBe('50');
+    expect(sourceMap['/damage'].start).toMatchObject({ line: 4, column: 11 });
+    expect(text.slice(sourceMap['/damage'].key?.start.offset, sourceMap['/damage'].key?.end.offset)).toBe(
+      'damage'
+    );
+  });
+
+  it('should map truncated values up to the end of the input', () => {
+    const text = 'Result: {"items": [1, 2], "note": "cut of';
+    const { result, sourceMap } = loot(text, { sourceMap: true });
+
+    expect(result).toEqual({ items: [1, 2], note: 'cut of' });
+    expect(slice(text, sourceMap['/items/1'])).toBe('2');
+    expect(slice(text, sourceMap['/note'])).toBe('"cut of');
+    expect(sourceMap[''].end.offset).toBe(text.length);
+  });
+
+  it('should only keep pointers present in the result', () => {
+    const text = '{"a": 1, "b": undefined}';
+    const { result, sourceMap } = loot(text, { sourceMap: true });
+
+    expect(result).toEqual({ a: 1, b: null });
+    expect(Object.keys(sourceMap).sort()).toEqual(['', '/a', '/b']);
+    expect(loot('{"a": 1, "a": 2}', { sourceMap: true }).sourceMap['/a'].start.offset).toBe(14);
+  });
+
+  it('should prefix pointers with the result index in all mode', () => {
+    const text = 'First {"id": 1} then {"id": 2}';
+    const { result, sourceMap } = loot(text, { all: true, sourceMap: true });
+
+    expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(slice(text, sourceMap['/0/id'])).toBe('1');
+    expect(slice(text, sourceMap['/1/id'])).toBe('2');
+    expect(sourceMap['/1'].start.offset).toBe(text.indexOf('{"id": 2}'));
+  });
+
+  it('should span values with repaired inner quotes', () => {
+    const text = '{"text": "He said "hi" to me", "n": 1}';
+    const { sourceMap } = loot(text, { sourceMap: true });
+
+    expect(slice(text, sourceMap['/text'])).toBe('"He said "hi" to me"');
+    expect(slice(text, sourceMap['/n'])).toBe('1');
+  });
+
+  it.each([
+    ['{\u201ca\u201d\uff1a [1,2]}', '/a', '[1,2]', '\u201ca\u201d'],
+    ['{\u201ca\u201d: \u201cx\u201d}', '/a', '\u201cx\u201d', '\u201ca\u201d'],
+    ['{\u2018a\u2019: \u2018x\u2019}', '/a', '\u2018x\u2019', '\u2018a\u2019'],
+    ['{"a": 1\uff0c "b": 2}', '/b', '2', '"b"'],
+    ['{"a":\u00a01,\u200b"b": 2}', '/a', '1', '"a"'],
+    ['{"a":\u00a01,\u200b"b": 2}', '/b', '2', '"b"'],
+  ])('should span values written with unicode punctuation in %j', (text, pointer, value, key) => {
+    const { sourceMap } = loot(text, { sourceMap: true });
+
+    expect(slice(text, sourceMap[pointer])).toBe(value);
+    expect(slice(text, sourceMap[pointer].key)).toBe(key);
+  });
+
+  it.each([
+    ['{"a": 1; "b": 2}', '/a', '1'],
+    ['{"a": 1; "b": 2}', '/b', '2'],
+    ['{"a" = 1}', '/a', '1'],
+    ['[1 @ 2 # 3]', '/1', '2'],
+    ['[1 @ 2 # 3]', '/2', '3'],
+  ])('should span values around stray text in %j', (text, pointer, value) => {
+    const { sourceMap } = loot(text, { sourceMap: true });
+
+    expect(slice(text, sourceMap[pointer])).toBe(value);
+  });
+
+  it('should map tuples like arrays', () => {
+    const text = "{'p': (1, 2), 'q': [(3,), ('x', None)]}";
+    const { result, sourceMap } = loot(text, { sourceMap: true });
+
+    expect(result).toEqual({ p: [1, 2], q: [[3], ['x', null]] });
+    expect(slice(text, sourceMap['/p'])).toBe('(1, 2)');
+    expect(slice(text, sourceMap['/p/0'])).toBe('1');
+    expect(slice(text, sourceMap['/p/1'])).toBe('2');
+    expect(slice(text, sourceMap['/q/0'])).toBe('(3,)');
+    expect(slice(text, sourceMap['/q/1/0'])).toBe("'x'");
+    expect(slice(text, sourceMap['/q/1/1'])).toBe('None');
+  });
+
+  it('should escape keys as JSON pointers', () => {
+    const { sourceMap } = loot('{"a/b": {"c~d": 1}}', { sourceMap: true });
+
+    expect(sourceMap['/a~1b/c~0d']).toBeDefined();
+  });
+
+  it('should return an empty map for empty input in silent mode', () => {
+    expect(loot('', { sourceMap: true, silent: true })).toEqual({ result: null, repairs: [], sourceMap: {} });
+  });
+});
+
+describe('findSourceSpan', () => {
+  it('should resolve validation error paths', () => {
+    const text = '```json\n{"items": [{"name": "a"}, {"name": 2}]}\n```';
+    const schema: LootSchema = {
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } },
+      },
+    };
+    const { result, sourceMap } = loot(text, { sourceMap: true });
+    const { errors } = validate(result, schema);
+
+    expect(errors[0].path).toBe('items.1.name');
+    expect(slice(text, findSourceSpan(sourceMap, errors[0].path))).toBe('2');
+    expect(findSourceSpan(sourceMap, '/items/0')).toBe(sourceMap['/items/0']);
+    expect(findSourceSpan(sourceMap, '(root)')).toBe(sourceMap['']);
+    expect(findSourceSpan(sourceMap, 'missing')).toBeUndefined();
+  });
+});
+
+describe('buildSourceMap', () => {
+  it('should map a region of a larger input', () => {
+    const text = 'prefix\n[true, null]';
+    const map = buildSourceMap(text, 7, text.length, [true, null]);
+
+    expect(map['/1'].start).toEqual({ offset: 14, line: 2, column: 8 });
+  });
+
+  it('should map containers written with full-width brackets', () => {
+    const text = '\uff5b"a": \uff3b1\uff3d\uff5d';
+    const map = buildSourceMap(text, 0, text.length, { a: [1] });
+
+    expect(slice(text, map[''])).toBe(text);
+    expect(slice(text, map['/a'])).toBe('\uff3b1\uff3d');
+    expect(slice(text, map['/a/0'])).toBe('1');
+  });
+});